@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { PairDataQuality, DataQualityUpdate } from "@shared/schema";
+
+const statusStyles: Record<PairDataQuality['status'], { dot: string; text: string; label: string }> = {
+  ok: { dot: 'success', text: 'text-green-500', label: 'OK' },
+  degraded: { dot: 'warning', text: 'text-yellow-500', label: 'Degraded' },
+  stale: { dot: 'danger', text: 'text-red-500', label: 'Stale' },
+  no_data: { dot: 'danger', text: 'text-gray-400', label: 'No data' }
+};
+
+const issueLabels: Record<string, string> = {
+  invalid_price: 'invalid price',
+  invalid_timestamp: 'invalid timestamp',
+  crossed_quote: 'crossed quote',
+  duplicate_timestamp: 'duplicate',
+  out_of_order: 'out of order',
+  spike: 'spike',
+  stale_quote: 'stale quote'
+};
+
+export function DataQualityPanel() {
+  const { data } = useQuery<DataQualityUpdate['data']>({
+    queryKey: ['/api/data-quality'],
+    refetchInterval: 5000
+  });
+
+  const pairs = data?.pairs ?? [];
+
+  const formatIssues = (pair: PairDataQuality) =>
+    Object.entries(pair.issues)
+      .map(([issue, count]) => `${count} ${issueLabels[issue] ?? issue}`)
+      .join(', ');
+
+  return (
+    <Card className="bg-card border border-border rounded-xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white">Data Quality</h2>
+        <div className="text-xs text-gray-400">
+          {pairs.reduce((sum, pair) => sum + pair.quarantinedTicks, 0)} ticks quarantined
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {pairs.length > 0 ? pairs.map((pair) => {
+          const style = statusStyles[pair.status];
+          return (
+            <div key={pair.symbol}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <div className={`indicator-dot ${style.dot}`}></div>
+                  <span className="text-sm text-white">{pair.symbol}</span>
+                </div>
+                <span className={`text-xs ${style.text}`}>{style.label}</span>
+              </div>
+              {pair.quarantinedTicks > 0 && (
+                <div className="mt-1 pl-4 text-xs text-gray-400">
+                  {formatIssues(pair)}
+                  {pair.lastIssue && ` · last: ${pair.lastIssue.detail}`}
+                </div>
+              )}
+            </div>
+          );
+        }) : (
+          <div className="text-center py-4 text-sm text-gray-400">
+            No pairs subscribed
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -33,6 +33,11 @@ export function SignalCard({ signal }: SignalCardProps) {
     return price.toFixed(5);
   };
 
+  const formatPips = (pips: number | null) => {
+    if (pips === null) return null;
+    return `${pips.toFixed(1)} pips`;
+  };
+
   return (
     <div className={`signal-card border-border ${signalTypeHoverColors[signal.signal as keyof typeof signalTypeHoverColors]}`}>
       <div className="flex items-center justify-between mb-3">
@@ -61,12 +66,24 @@ export function SignalCard({ signal }: SignalCardProps) {
         <div>
           <div className="text-xs text-gray-400">Stop Loss</div>
           <div className="font-mono text-red-500">{formatPrice(signal.stopLoss)}</div>
+          {signal.stopLossPips !== null && (
+            <div className="text-xs text-gray-400">{formatPips(signal.stopLossPips)}</div>
+          )}
         </div>
         <div>
           <div className="text-xs text-gray-400">Take Profit</div>
           <div className="font-mono text-green-500">{formatPrice(signal.takeProfit)}</div>
+          {signal.takeProfitPips !== null && (
+            <div className="text-xs text-gray-400">{formatPips(signal.takeProfitPips)}</div>
+          )}
         </div>
       </div>
+
+      {signal.riskRewardRatio !== null && (
+        <div className="mt-3 text-xs text-gray-400">
+          Risk:Reward <span className="font-mono text-white">1:{signal.riskRewardRatio.toFixed(2)}</span>
+        </div>
+      )}
     </div>
   );
 }
@@ -25,6 +25,13 @@ export function SystemStatus({ status }: SystemStatusProps) {
     return active ? 'success' : 'danger';
   };
 
+  const formatSessions = (sessions: string[]) => {
+    if (sessions.length === 0) return 'Open (between sessions)';
+    return sessions
+      .map(session => session.split('_').map(word => word[0].toUpperCase() + word.slice(1)).join(' '))
+      .join(' / ');
+  };
+
   const getRateLimitColor = (current: number, max: number) => {
     const percentage = (current / max) * 100;
     if (percentage > 90) return 'danger';
@@ -37,7 +44,7 @@ export function SystemStatus({ status }: SystemStatusProps) {
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-lg font-semibold text-white">System Status</h2>
         <div className="text-xs text-gray-400">
-          Last updated: {formatUptime(status.lastUpdate)}
+          Last updated: {status.lastUpdate ? formatUptime(status.lastUpdate) : 'never'}
         </div>
       </div>
       
@@ -48,10 +55,28 @@ export function SystemStatus({ status }: SystemStatusProps) {
             <span className="text-sm text-white">Data Provider</span>
           </div>
           <span className={`text-xs ${status.connected ? 'text-green-500' : 'text-red-500'}`}>
-            {status.mode === 'demo' ? 'Demo Mode' : 'ExchangeRate-API'}
+            {status.provider || (status.mode === 'demo' ? 'Demo Mode' : 'ExchangeRate-API')}
           </span>
         </div>
         
+        {status.failover?.previousProvider && (
+          <div className="p-2 bg-yellow-500/10 border border-yellow-500/30 rounded text-xs text-yellow-500">
+            Switched from {status.failover.previousProvider}: {status.failover.reason}
+          </div>
+        )}
+        
+        {status.failover && status.failover.providers.length > 1 && status.failover.providers.map((health) => (
+          <div key={health.id} className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <div className={`indicator-dot ${health.healthy ? 'success' : health.running ? 'warning' : 'danger'}`}></div>
+              <span className="text-sm text-white">{health.name}</span>
+            </div>
+            <span className="text-xs text-gray-400">
+              {health.running ? `Health ${Math.round(health.score * 100)}%` : 'Standby'}
+            </span>
+          </div>
+        ))}
+        
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
             <div className={`indicator-dot ${getStatusColor(status.connected)}`}></div>
@@ -62,6 +87,26 @@ export function SystemStatus({ status }: SystemStatusProps) {
           </span>
         </div>
         
+        {status.market && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <div className={`indicator-dot ${status.market.open ? 'success' : 'warning'}`}></div>
+              <span className="text-sm text-white">Market</span>
+            </div>
+            <span className={`text-xs ${status.market.open ? 'text-green-500' : 'text-yellow-500'}`}>
+              {status.market.open
+                ? formatSessions(status.market.sessions)
+                : `Closed (${status.market.holiday || 'weekend'})`}
+            </span>
+          </div>
+        )}
+        
+        {status.market && !status.market.open && status.market.nextOpen && (
+          <div className="p-2 bg-yellow-500/10 border border-yellow-500/30 rounded text-xs text-yellow-500">
+            Market reopens {new Date(status.market.nextOpen).toLocaleString()}
+          </div>
+        )}
+        
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
             <div className={`indicator-dot ${getRateLimitColor(status.rateLimit.current, status.rateLimit.max)}`}></div>
@@ -71,7 +116,9 @@ export function SystemStatus({ status }: SystemStatusProps) {
           </div>
           <span className="text-xs text-yellow-500">
             {status.rateLimit.current}/{status.rateLimit.max}
-            {status.mode === 'demo' ? ' req/min' : ' req/day'}
+            {status.rateLimit.window
+              ? ` req/${status.rateLimit.window}`
+              : status.mode === 'demo' ? ' req/min' : ' req/day'}
           </span>
         </div>
         
@@ -99,7 +146,7 @@ export function SystemStatus({ status }: SystemStatusProps) {
       </div>
       
       {/* Attribution for ExchangeRate-API when in live mode */}
-      {status.mode === 'live' && (
+      {status.mode === 'live' && status.provider?.startsWith('ExchangeRate-API') && (
         <div className="mt-6 pt-4 border-t border-border">
           <p className="text-xs text-gray-400">
             Forex rates powered by{' '}
@@ -51,14 +51,14 @@ export function useRealtimePrice({ symbols, updateInterval = 5000, debounceMs =
         // Debounce price updates
         debounceRef.current = setTimeout(() => {
           setPrices(prevPrices => {
-            const newPrices = { ...prevPrices };
+            // Only the requested symbols are kept, so deactivated pairs drop out
+            const newPrices: Record<string, PriceData> = {};
             
             symbols.forEach(symbol => {
-              const [base, quote] = symbol.split('/');
-              const rate = data.rates[quote] / data.rates[base];
+              const rate = data.rates[symbol]?.mid;
               
               if (rate && !isNaN(rate)) {
-                const prevPrice = newPrices[symbol]?.price || rate;
+                const prevPrice = prevPrices[symbol]?.price || rate;
                 const change = rate - prevPrice;
                 const changePercent = prevPrice > 0 ? (change / prevPrice) * 100 : 0;
                 
@@ -69,6 +69,8 @@ export function useRealtimePrice({ symbols, updateInterval = 5000, debounceMs =
                   changePercent,
                   timestamp: Date.now()
                 };
+              } else if (prevPrices[symbol]) {
+                newPrices[symbol] = prevPrices[symbol];
               }
             });
             
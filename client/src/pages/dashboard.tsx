@@ -1,14 +1,16 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { ChartLine, Signal, Percent, Zap, Trophy, Settings, RefreshCw } from "lucide-react";
 import { StatsCard } from "@/components/stats-card";
 import { SignalCard } from "@/components/signal-card";
 import { DivergenceAnalysis } from "@/components/divergence-analysis";
 import { IndicatorStatus } from "@/components/indicator-status";
 import { SystemStatus } from "@/components/system-status";
+import { DataQualityPanel } from "@/components/data-quality-panel";
 import { BacktestingPanel } from "@/components/backtesting-panel";
 import { PriceCard } from "@/components/price-card";
 import { useRealtimePrice } from "@/hooks/use-realtime-price";
-import { TradingSignal, SystemStatus as SystemStatusType } from "@shared/schema";
+import { TradingSignal, ForexPair, SystemStatus as SystemStatusType } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -20,9 +22,16 @@ export default function Dashboard() {
   const [signals, setSignals] = useState<TradingSignal[]>([]);
   const [previousPrices, setPreviousPrices] = useState<Record<string, any>>({});
   
+  // Active pairs are configured on the server
+  const { data: pairs } = useQuery<ForexPair[]>({
+    queryKey: ['/api/pairs'],
+    refetchInterval: 30000
+  });
+  const symbols = useMemo(() => (pairs ?? []).map(pair => pair.symbol), [pairs]);
+  
   // Real-time price data with polling
   const { prices, isLoading: pricesLoading, error: priceError, isConnected: pricesConnected, refetch } = useRealtimePrice({
-    symbols: ['EUR/USD', 'GBP/USD', 'USD/JPY', 'AUD/USD', 'USD/CHF', 'USD/CAD'],
+    symbols,
     updateInterval: 3000, // 3 second updates
     debounceMs: 200
   });
@@ -71,6 +80,18 @@ export default function Dashboard() {
     }
   }, [prices]);
 
+  // Provider status (active feed, failover state) from the server
+  const { data: providerStatus } = useQuery<SystemStatusType['data']>({
+    queryKey: ['/api/system-status'],
+    refetchInterval: 10000
+  });
+
+  useEffect(() => {
+    if (providerStatus) {
+      setSystemStatus(prev => ({ ...prev, ...providerStatus }));
+    }
+  }, [providerStatus]);
+
   // Update connection status display
   useEffect(() => {
     setSystemStatus(prev => ({
@@ -347,6 +368,9 @@ export default function Dashboard() {
               {/* System Status */}
               <SystemStatus status={systemStatus} />
 
+              {/* Data Quality */}
+              <DataQualityPanel />
+
             </div>
           </div>
         </main>
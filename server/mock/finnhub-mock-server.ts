@@ -0,0 +1,252 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import { MarketSimulator } from '../services/market-simulator.js';
+import { fromFinnhubSymbol } from '../services/symbol-mapping.js';
+
+export interface FinnhubMockOptions {
+  port?: number; // 0 picks a free port
+  tokens?: string[]; // Accepted API keys; any non-empty token when empty
+  rejectAuth?: boolean; // Refuse every handshake with 401, as Finnhub does for a bad key
+  pingIntervalMs?: number; // Finnhub sends {"type":"ping"} to idle clients
+  seed?: number; // Seed for the simulated trade stream
+}
+
+export interface MockTrade {
+  symbol: string; // Finnhub symbol, e.g. OANDA:EUR_USD
+  price: number;
+  volume?: number;
+  timestamp?: number;
+}
+
+// Frames received from clients, in order, so tests can assert on them
+export interface ReceivedFrame {
+  type: string;
+  symbol?: string;
+  receivedAt: number;
+}
+
+export type FinnhubMockScenario = 'normal' | 'flaky' | 'malformed' | 'reject-auth';
+
+/**
+ * Local stand-in for wss://ws.finnhub.io that speaks the same protocol:
+ * clients connect with ?token=, send subscribe/unsubscribe frames and receive
+ * trade and ping frames. Tests script it directly (emit trades, drop
+ * connections, send malformed frames, reject auth); run the file to get a
+ * standalone server for FINNHUB_WS_URL.
+ */
+export class FinnhubMockServer {
+  private wss: WebSocketServer | null = null;
+  private subscriptions = new Map<WebSocket, Set<string>>();
+  private pingTimer: NodeJS.Timeout | null = null;
+  private streamTimer: NodeJS.Timeout | null = null;
+  private simulator: MarketSimulator;
+  private rejectAuth: boolean;
+
+  readonly received: ReceivedFrame[] = [];
+  connectionCount = 0; // Accepted handshakes, including reconnects
+  rejectedCount = 0;
+
+  constructor(private readonly options: FinnhubMockOptions = {}) {
+    this.rejectAuth = options.rejectAuth ?? false;
+    this.simulator = new MarketSimulator(options.seed ?? 1);
+  }
+
+  async start(): Promise<string> {
+    if (this.wss) return this.url;
+
+    const wss = new WebSocketServer({
+      port: this.options.port ?? 0,
+      verifyClient: (info, callback) => {
+        const token = new URL(info.req.url ?? '/', 'ws://localhost').searchParams.get('token');
+        const accepted = !this.rejectAuth && !!token
+          && (!this.options.tokens?.length || this.options.tokens.includes(token));
+        if (!accepted) {
+          this.rejectedCount++;
+          callback(false, 401, 'Invalid API key');
+          return;
+        }
+        callback(true);
+      }
+    });
+    this.wss = wss;
+
+    wss.on('connection', ws => {
+      this.connectionCount++;
+      this.subscriptions.set(ws, new Set());
+      ws.on('message', data => this.handleFrame(ws, data.toString()));
+      ws.on('close', () => this.subscriptions.delete(ws));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      wss.once('listening', resolve);
+      wss.once('error', reject);
+    });
+
+    this.pingTimer = setInterval(() => this.broadcast(JSON.stringify({ type: 'ping' })), this.options.pingIntervalMs ?? 15000);
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this.stopTradeStream();
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    if (!this.wss) return;
+
+    const wss = this.wss;
+    this.wss = null;
+    wss.clients.forEach(client => client.terminate());
+    this.subscriptions.clear();
+    await new Promise<void>(resolve => wss.close(() => resolve()));
+  }
+
+  get url(): string {
+    if (!this.wss) throw new Error('Mock server is not running');
+    return `ws://127.0.0.1:${(this.wss.address() as AddressInfo).port}`;
+  }
+
+  // Finnhub symbols subscribed by at least one client
+  getSubscriptions(): string[] {
+    const symbols = new Set<string>();
+    this.subscriptions.forEach(subscribed => subscribed.forEach(symbol => symbols.add(symbol)));
+    return Array.from(symbols);
+  }
+
+  // Applies to new handshakes; existing connections stay open
+  setRejectAuth(reject: boolean): void {
+    this.rejectAuth = reject;
+  }
+
+  // Each client receives the trades for the symbols it subscribed to, in one frame
+  emitTrades(trades: MockTrade[]): void {
+    this.subscriptions.forEach((subscribed, ws) => {
+      const data = trades
+        .filter(trade => subscribed.has(trade.symbol))
+        .map(trade => ({
+          s: trade.symbol,
+          p: trade.price,
+          t: trade.timestamp ?? Date.now(),
+          v: trade.volume ?? 1,
+          c: null
+        }));
+      if (data.length > 0) this.send(ws, JSON.stringify({ type: 'trade', data }));
+    });
+  }
+
+  // Anything, including frames that are not JSON
+  sendRaw(frame: string): void {
+    this.broadcast(frame);
+  }
+
+  sendError(msg: string): void {
+    this.broadcast(JSON.stringify({ type: 'error', msg }));
+  }
+
+  // Abrupt drops skip the close handshake, like a network failure (clients see code 1006)
+  dropConnections(abrupt: boolean = true, code: number = 1001): void {
+    this.wss?.clients.forEach(client => {
+      if (abrupt) {
+        client.terminate();
+      } else {
+        client.close(code, 'Mock server closed the connection');
+      }
+    });
+  }
+
+  // Simulated trades for every subscribed pair the simulator knows
+  startTradeStream(intervalMs: number = 1000): void {
+    this.stopTradeStream();
+    this.streamTimer = setInterval(() => {
+      const trades = this.getSubscriptions()
+        .filter(symbol => this.simulator.hasPair(fromFinnhubSymbol(symbol)))
+        .map(symbol => {
+          const quote = this.simulator.step(fromFinnhubSymbol(symbol), intervalMs);
+          return { symbol, price: quote.mid, volume: quote.volume };
+        });
+      this.emitTrades(trades);
+    }, intervalMs);
+  }
+
+  stopTradeStream(): void {
+    if (this.streamTimer) {
+      clearInterval(this.streamTimer);
+      this.streamTimer = null;
+    }
+  }
+
+  async waitForSubscription(symbol: string, timeoutMs: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!this.getSubscriptions().includes(symbol)) {
+      if (Date.now() > deadline) {
+        throw new Error(`No subscription to ${symbol} within ${timeoutMs}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  }
+
+  private handleFrame(ws: WebSocket, frame: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(frame);
+    } catch {
+      this.send(ws, JSON.stringify({ type: 'error', msg: 'Malformed message' }));
+      return;
+    }
+
+    this.received.push({ type: message.type, symbol: message.symbol, receivedAt: Date.now() });
+    const subscribed = this.subscriptions.get(ws);
+    if (!subscribed) return;
+
+    if (message.type === 'subscribe' && typeof message.symbol === 'string') {
+      subscribed.add(message.symbol);
+    } else if (message.type === 'unsubscribe' && typeof message.symbol === 'string') {
+      subscribed.delete(message.symbol);
+    }
+  }
+
+  private broadcast(frame: string): void {
+    this.wss?.clients.forEach(client => this.send(client, frame));
+  }
+
+  private send(ws: WebSocket, frame: string): void {
+    if (ws.readyState === WebSocket.OPEN) ws.send(frame);
+  }
+}
+
+/**
+ * Standalone server for manual and CI runs. FINNHUB_MOCK_SCENARIO picks the
+ * behaviour: normal (steady trades), flaky (connections dropped every 30s),
+ * malformed (garbage mixed into the stream) or reject-auth.
+ */
+export async function runFinnhubMock(
+  port: number = Number(process.env.FINNHUB_MOCK_PORT) || 8765,
+  scenario: FinnhubMockScenario = (process.env.FINNHUB_MOCK_SCENARIO as FinnhubMockScenario) || 'normal'
+): Promise<FinnhubMockServer> {
+  const server = new FinnhubMockServer({
+    port,
+    rejectAuth: scenario === 'reject-auth',
+    seed: Number(process.env.FINNHUB_MOCK_SEED) || 1
+  });
+  const url = await server.start();
+  server.startTradeStream(1000);
+
+  if (scenario === 'flaky') {
+    setInterval(() => server.dropConnections(), 30000);
+  } else if (scenario === 'malformed') {
+    const frames = ['{"type":"trade"', '{"type":"trade","data":[{"s":"OANDA:EUR_USD","p":"1.1"}]}', 'not json'];
+    let next = 0;
+    setInterval(() => server.sendRaw(frames[next++ % frames.length]), 5000);
+  }
+
+  console.log(`Finnhub mock server (${scenario}) listening on ${url}; set FINNHUB_WS_URL=${url}`);
+  return server;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runFinnhubMock().catch(error => {
+    console.error('Failed to start Finnhub mock server:', error);
+    process.exit(1);
+  });
+}
@@ -1,10 +1,29 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { createHash } from "crypto";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage.js";
-import { ForexService } from "./services/forex-service.js";
-import { DemoDataService } from "./services/demo-data-service.js";
-import { TradingSignal, SystemStatus, SignalUpdate, MarketUpdate } from "@shared/schema.js";
+import { fromZodError } from "zod-validation-error";
+import { storage, DuplicateProfileNameError } from "./storage.js";
+import { providerRegistry } from "./services/provider-registry.js";
+import { ProviderFailoverCoordinator } from "./services/provider-failover.js";
+import { SignalPipeline } from "./services/signal-pipeline.js";
+import { findUnknownRuleWeights } from "./services/signal-engine-manager.js";
+import { CandleAggregator, TIMEFRAMES, isTimeframe, buildCandles } from "./services/candle-aggregator.js";
+import { MarketDataWriter } from "./services/market-data-writer.js";
+import { isValidPair } from "./services/symbol-mapping.js";
+import { TickRecorder, listRecordings, resolveRecording } from "./services/tick-recorder.js";
+import { ReplayProvider, ReplaySpeed } from "./services/replay-provider.js";
+import { marketCalendar } from "./services/market-calendar.js";
+import { DataQualityGuard } from "./services/data-quality.js";
+import { defaultRuleSet, parseRuleSet } from "./services/signal-rules.js";
+import { buildLevels } from "./services/levels.js";
+import { quotaManager } from "./services/quota-manager.js";
+import { TradingSignal, SystemStatus, SignalUpdate, MarketUpdate, Candle, CandleClosed, DataQualityUpdate, RuleSet, insertStrategyProfileSchema } from "@shared/schema.js";
+
+// Upper bound on ticks read to build candles for one history request
+const maxTicksPerCandleQuery = 200000;
+// History read for /api/levels when the pipeline has no levels for the pair yet
+const levelsHistoryMs = 4 * 24 * 60 * 60 * 1000;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
@@ -12,20 +31,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WebSocket server for real-time updates
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
   
-  // Initialize services with real API integration
-  let dataService: ForexService | DemoDataService;
-  
-  // Use live APIs if available, fallback to demo for development
-  if (process.env.FINNHUB_API_KEY || process.env.EXCHANGERATE_API_KEY) {
-    dataService = new ForexService();
-    console.log('Using live API services with real market data');
-  } else {
-    dataService = new DemoDataService();
-    console.log('Using demo data service - add API keys for live data');
-  }
+  // Configured providers (MARKET_DATA_PROVIDERS) form a failover chain in order of preference
+  const dataService = new ProviderFailoverCoordinator(providerRegistry);
   
   // Store connected clients
   const clients = new Set<WebSocket>();
+
+  // A quiet feed outside trading hours is expected, so the status reports the market as closed
+  function withMarketState(status: SystemStatus['data']): SystemStatus['data'] {
+    const market = marketCalendar.getState(dataService.now());
+    return { ...status, mode: market.open ? status.mode : 'market_closed', market };
+  }
   
   // Broadcast to all connected clients
   function broadcast(message: any) {
@@ -37,30 +53,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }
   
+  // Signals are derived from the market data stream by the signal engine
+  // The forex_pairs table decides which pairs are streamed and analysed
+  const activePairs = await storage.getActivePairs();
+  await dataService.subscribe(activePairs.map(pair => pair.symbol));
+  
+  const signalPipeline = new SignalPipeline();
+  signalPipeline.setActivePairs(activePairs);
+  
+  // Engines run with the strategy profile assigned to their pair and timeframe
+  async function refreshProfiles() {
+    signalPipeline.setProfiles(await storage.getStrategyProfiles(), await storage.getProfileAssignments());
+  }
+  await refreshProfiles();
+  signalPipeline.setCallbacks((signal: TradingSignal) => {
+    // Store signal (in production, would save to database)
+    storage.saveSignal(signal);
+    
+    // Broadcast to clients
+    const update: SignalUpdate = {
+      type: 'signal_update',
+      data: signal
+    };
+    broadcast(update);
+  });
+  
+  // Ticks are aggregated into OHLC bars; the signal engine works on closed bars
+  const candleAggregator = new CandleAggregator();
+  candleAggregator.setCallbacks((candle: Candle) => {
+    const update: CandleClosed = {
+      type: 'candle_closed',
+      data: candle
+    };
+    broadcast(update);
+    
+    signalPipeline.processCandle(candle);
+  });
+  
+  // Every live tick is persisted for charts and backtests
+  const marketDataWriter = new MarketDataWriter(storage);
+  
+  // Bad ticks are quarantined before they reach history, clients or indicators
+  const dataQualityGuard = new DataQualityGuard(dataService);
+  const dataQualityBroadcastMs = 5000;
+  setInterval(() => {
+    const update: DataQualityUpdate = {
+      type: 'data_quality',
+      data: {
+        pairs: dataQualityGuard.getReport(dataService.getSubscriptions()),
+        updatedAt: new Date().toISOString()
+      }
+    };
+    broadcast(update);
+  }, dataQualityBroadcastMs);
+  
+  // RECORD_TICKS=true captures the session for later replay
+  const tickRecorder = new TickRecorder();
+  if (process.env.RECORD_TICKS === 'true') {
+    tickRecorder.start();
+  }
+  
+  // Replay controls only apply when the replay provider is part of the chain
+  function getReplayProvider(): ReplayProvider | null {
+    const provider = dataService.getProvider('replay');
+    return provider instanceof ReplayProvider ? provider : null;
+  }
+  
   // Set up data service callbacks
   dataService.setCallbacks(
-    (signal: TradingSignal) => {
-      // Store signal (in production, would save to database)
-      storage.saveSignal(signal);
-      
-      // Broadcast to clients
-      const update: SignalUpdate = {
-        type: 'signal_update',
-        data: signal
-      };
-      broadcast(update);
-    },
-    (marketUpdate: any) => {
+    (marketUpdate: MarketUpdate['data']) => {
+      // Recordings keep the raw feed, including ticks the guard rejects
+      tickRecorder.record(dataService.name, marketUpdate);
+      if (!dataQualityGuard.check(marketUpdate).accepted) return;
+      
+      // Replayed ticks are already in the history
+      if (dataService.getActiveProviderId() !== 'replay') {
+        marketDataWriter.add(marketUpdate);
+      }
+      
       const update: MarketUpdate = {
         type: 'market_update',
         data: marketUpdate
       };
       broadcast(update);
+      
+      candleAggregator.addTick(
+        marketUpdate.symbol,
+        marketUpdate.price,
+        new Date(marketUpdate.timestamp).getTime(),
+        marketUpdate.volume
+      );
     },
     (systemStatus: SystemStatus['data']) => {
       const update: SystemStatus = {
         type: 'system_status',
-        data: systemStatus
+        data: withMarketState(systemStatus)
       };
       broadcast(update);
     }
@@ -137,22 +224,469 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.get('/api/pairs', async (req, res) => {
     try {
-      const pairs = storage.getActivePairs();
+      // ?all=true includes deactivated pairs so they can be switched back on
+      const pairs = req.query.all === 'true'
+        ? await storage.getAllPairs()
+        : await storage.getActivePairs();
       res.json(pairs);
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch pairs' });
     }
   });
   
+  app.patch('/api/pairs/:symbol', async (req, res) => {
+    try {
+      const { isActive } = req.body;
+      if (typeof isActive !== 'boolean') {
+        return res.status(400).json({ error: 'isActive must be a boolean' });
+      }
+      
+      const { symbol } = req.params;
+      const pairs = await storage.getAllPairs();
+      if (!pairs.some(pair => pair.symbol === symbol)) {
+        return res.status(404).json({ error: `Unknown pair ${symbol}` });
+      }
+      
+      await storage.updatePairStatus(symbol, isActive);
+      
+      // Start or stop streaming the pair live; deactivated pairs also release their signal engine state
+      if (isActive) {
+        await dataService.subscribe([symbol]);
+      } else {
+        await dataService.unsubscribe([symbol]);
+      }
+      signalPipeline.setActivePairs(await storage.getActivePairs());
+      
+      res.json({ symbol, isActive });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update pair status' });
+    }
+  });
+  
+  app.get('/api/profiles', async (req, res) => {
+    try {
+      res.json(await storage.getStrategyProfiles());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch strategy profiles' });
+    }
+  });
+  
+  app.get('/api/profiles/:id', async (req, res) => {
+    try {
+      const profile = await storage.getStrategyProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ error: `Unknown profile ${req.params.id}` });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch strategy profile' });
+    }
+  });
+  
+  app.post('/api/profiles', async (req, res) => {
+    const parsed = insertStrategyProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const unknownRules = findUnknownRuleWeights(parsed.data.ruleWeights ?? {}, parsed.data.ruleSet ?? null);
+    if (unknownRules.length > 0) {
+      return res.status(400).json({ error: `Unknown rules in ruleWeights: ${unknownRules.join(', ')}` });
+    }
+    
+    try {
+      res.status(201).json(await storage.createStrategyProfile(parsed.data));
+    } catch (error) {
+      if (error instanceof DuplicateProfileNameError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to create strategy profile' });
+    }
+  });
+  
+  // Editing a profile restarts the engines that use it with the new parameters
+  app.patch('/api/profiles/:id', async (req, res) => {
+    const parsed = insertStrategyProfileSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    
+    try {
+      // Weights are checked against the rule set the profile will run with after the update
+      if (parsed.data.ruleWeights !== undefined || parsed.data.ruleSet !== undefined) {
+        const existing = await storage.getStrategyProfile(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: `Unknown profile ${req.params.id}` });
+        }
+        const unknownRules = findUnknownRuleWeights(
+          parsed.data.ruleWeights ?? existing.ruleWeights,
+          parsed.data.ruleSet !== undefined ? parsed.data.ruleSet : existing.ruleSet as RuleSet | null
+        );
+        if (unknownRules.length > 0) {
+          return res.status(400).json({ error: `Unknown rules in ruleWeights: ${unknownRules.join(', ')}` });
+        }
+      }
+      
+      const profile = await storage.updateStrategyProfile(req.params.id, parsed.data);
+      if (!profile) {
+        return res.status(404).json({ error: `Unknown profile ${req.params.id}` });
+      }
+      await refreshProfiles();
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof DuplicateProfileNameError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to update strategy profile' });
+    }
+  });
+  
+  // Pairs assigned to a deleted profile fall back to the built-in defaults
+  app.delete('/api/profiles/:id', async (req, res) => {
+    try {
+      if (!await storage.deleteStrategyProfile(req.params.id)) {
+        return res.status(404).json({ error: `Unknown profile ${req.params.id}` });
+      }
+      await refreshProfiles();
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete strategy profile' });
+    }
+  });
+  
+  // Built-in confirmation rules (SIGNAL_RULES_FILE), a starting point for a profile's ruleSet
+  app.get('/api/rules/default', async (req, res) => {
+    res.json(defaultRuleSet);
+  });
+  
+  app.post('/api/rules/validate', async (req, res) => {
+    try {
+      const ruleSet = parseRuleSet(req.body);
+      res.json({ valid: true, bullish: ruleSet.bullish.length, bearish: ruleSet.bearish.length });
+    } catch (error) {
+      res.status(400).json({ valid: false, error: (error as Error).message });
+    }
+  });
+  
+  app.get('/api/profile-assignments', async (req, res) => {
+    try {
+      res.json(await storage.getProfileAssignments());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch profile assignments' });
+    }
+  });
+  
+  // Timeframe defaults to the pair's configured one; pair symbols contain a slash, so encode it (EUR%2FUSD)
+  app.put('/api/pairs/:symbol/profile', async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const { profileId } = req.body;
+      if (typeof profileId !== 'string' || !profileId) {
+        return res.status(400).json({ error: 'profileId must name a strategy profile' });
+      }
+      
+      const pair = (await storage.getAllPairs()).find(p => p.symbol === symbol);
+      if (!pair) {
+        return res.status(404).json({ error: `Unknown pair ${symbol}` });
+      }
+      const timeframe = req.body.timeframe ?? pair.timeframe;
+      if (typeof timeframe !== 'string' || !isTimeframe(timeframe)) {
+        return res.status(400).json({ error: `timeframe must be one of ${TIMEFRAMES.join(', ')}` });
+      }
+      if (!await storage.getStrategyProfile(profileId)) {
+        return res.status(404).json({ error: `Unknown profile ${profileId}` });
+      }
+      
+      const assignment = await storage.assignProfile({ pair: symbol, timeframe, profileId });
+      await refreshProfiles();
+      res.json(assignment);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to assign strategy profile' });
+    }
+  });
+  
+  app.delete('/api/pairs/:symbol/profile', async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const pair = (await storage.getAllPairs()).find(p => p.symbol === symbol);
+      if (!pair) {
+        return res.status(404).json({ error: `Unknown pair ${symbol}` });
+      }
+      const timeframe = req.query.timeframe ?? pair.timeframe;
+      if (typeof timeframe !== 'string' || !isTimeframe(timeframe)) {
+        return res.status(400).json({ error: `timeframe must be one of ${TIMEFRAMES.join(', ')}` });
+      }
+      
+      if (!await storage.unassignProfile(symbol, timeframe)) {
+        return res.status(404).json({ error: `No profile assigned to ${symbol} ${timeframe}` });
+      }
+      await refreshProfiles();
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to remove strategy profile assignment' });
+    }
+  });
+  
+  app.get('/api/data-quality', async (req, res) => {
+    try {
+      res.json({
+        pairs: dataQualityGuard.getReport(dataService.getSubscriptions()),
+        updatedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch data quality' });
+    }
+  });
+  
+  // Recently quarantined ticks, newest first; ?symbol= narrows to one pair
+  app.get('/api/data-quality/quarantine', async (req, res) => {
+    const symbol = typeof req.query.symbol === 'string' ? req.query.symbol : undefined;
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : 100;
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      return res.status(400).json({ error: 'limit must be an integer between 1 and 1000' });
+    }
+    
+    try {
+      res.json(dataQualityGuard.getQuarantine(symbol, limit));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch quarantined ticks' });
+    }
+  });
+  
   app.get('/api/system-status', async (req, res) => {
     try {
-      const status = dataService.getConnectionStatus();
+      const status = withMarketState(dataService.getConnectionStatus());
       res.json(status);
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch system status' });
     }
   });
   
+  app.get('/api/forex/rates', async (req, res) => {
+    try {
+      const quotes = dataService.getQuotes();
+      const rates: Record<string, { bid: number; ask: number; mid: number; spread: number; timestamp: string; synthetic: boolean }> = {};
+      let newestTimestamp = 0;
+      
+      quotes.forEach(quote => {
+        rates[quote.symbol] = {
+          bid: quote.bid,
+          ask: quote.ask,
+          mid: (quote.bid + quote.ask) / 2,
+          spread: quote.spread,
+          timestamp: new Date(quote.timestamp).toISOString(),
+          synthetic: quote.synthetic ?? false
+        };
+        newestTimestamp = Math.max(newestTimestamp, quote.timestamp);
+      });
+      
+      // The ETag covers the quotes only, so unchanged rates revalidate with a 304 while data age keeps moving
+      const etag = `W/"${createHash('sha1').update(dataService.name + JSON.stringify(rates)).digest('base64url')}"`;
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', 'no-cache');
+      
+      const ifNoneMatch = req.headers['if-none-match'];
+      if (ifNoneMatch && ifNoneMatch.split(',').map(tag => tag.trim()).includes(etag)) {
+        return res.status(304).end();
+      }
+      
+      res.json({
+        success: true,
+        provider: dataService.name,
+        timestamp: new Date().toISOString(),
+        dataAgeMs: newestTimestamp > 0 ? Date.now() - newestTimestamp : null,
+        rates
+      });
+    } catch (error) {
+      res.status(500).json({ success: false, error: 'Failed to fetch forex rates' });
+    }
+  });
+  
+  // Price history as raw ticks or OHLC candles: ?from&to (ISO or epoch ms), ?limit, ?resolution=tick|1m|5m|15m|1h
+  app.get('/api/market-data/:symbol', async (req, res) => {
+    const { symbol } = req.params;
+    if (!isValidPair(symbol)) {
+      return res.status(400).json({ error: 'symbol must be a pair like EUR/USD' });
+    }
+    
+    const parseTime = (value: unknown, fallback: number) => {
+      if (value === undefined) return fallback;
+      const text = String(value);
+      return /^\d+$/.test(text) ? Number(text) : Date.parse(text);
+    };
+    
+    const to = parseTime(req.query.to, Date.now());
+    const from = parseTime(req.query.from, to - 24 * 60 * 60 * 1000);
+    if (!Number.isFinite(from) || !Number.isFinite(to) || from > to) {
+      return res.status(400).json({ error: 'from and to must be ISO dates or epoch milliseconds with from <= to' });
+    }
+    
+    const limit = req.query.limit === undefined ? 1000 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 10000) {
+      return res.status(400).json({ error: 'limit must be an integer between 1 and 10000' });
+    }
+    
+    const resolution = String(req.query.resolution ?? 'tick');
+    if (resolution !== 'tick' && !isTimeframe(resolution)) {
+      return res.status(400).json({ error: `resolution must be tick or one of ${TIMEFRAMES.join(', ')}` });
+    }
+    
+    try {
+      const range = { symbol, resolution, from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+      
+      if (resolution === 'tick') {
+        const ticks = await storage.getMarketDataRange(symbol, new Date(from), new Date(to), limit);
+        return res.json({
+          ...range,
+          count: ticks.length,
+          data: ticks.map(tick => ({
+            timestamp: tick.timestamp.toISOString(),
+            price: tick.price,
+            bid: tick.bid,
+            ask: tick.ask,
+            spread: tick.spread,
+            volume: tick.volume
+          }))
+        });
+      }
+      
+      // Candles are built from every tick in the range; the newest `limit` bars are returned
+      const ticks = await storage.getMarketDataRange(symbol, new Date(from), new Date(to), maxTicksPerCandleQuery);
+      const candles = buildCandles(
+        symbol,
+        resolution,
+        ticks.map(tick => ({ price: tick.price, timestamp: tick.timestamp.getTime(), volume: tick.volume }))
+      ).slice(-limit);
+      
+      res.json({ ...range, count: candles.length, data: candles });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch market data' });
+    }
+  });
+  
+  // Daily pivots and swing support/resistance zones; served from stored ticks until the live pipeline has seen the pair
+  app.get('/api/levels/:symbol', async (req, res) => {
+    const { symbol } = req.params;
+    if (!isValidPair(symbol)) {
+      return res.status(400).json({ error: 'symbol must be a pair like EUR/USD' });
+    }
+    
+    try {
+      const live = signalPipeline.getLevels(symbol);
+      if (live) return res.json(live);
+      
+      // Enough history to span a weekend and still find the previous trading day
+      const to = Date.now();
+      const ticks = await storage.getMarketDataRange(symbol, new Date(to - levelsHistoryMs), new Date(to), maxTicksPerCandleQuery);
+      const candles = buildCandles(
+        symbol,
+        signalPipeline.getLevelsTimeframe(),
+        ticks.map(tick => ({ price: tick.price, timestamp: tick.timestamp.getTime(), volume: tick.volume }))
+      );
+      const levels = buildLevels(symbol, candles);
+      if (!levels) {
+        return res.status(404).json({ error: `No price history for ${symbol}` });
+      }
+      res.json(levels);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to calculate levels' });
+    }
+  });
+  
+  app.get('/api/recordings', async (req, res) => {
+    try {
+      res.json({
+        recorder: tickRecorder.getStatus(),
+        recordings: await listRecordings()
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to list recordings' });
+    }
+  });
+  
+  app.get('/api/replay', async (req, res) => {
+    const replay = getReplayProvider();
+    if (!replay) {
+      return res.status(409).json({ error: 'Replay provider is not configured' });
+    }
+    res.json(replay.getReplayState());
+  });
+  
+  app.post('/api/replay/load', async (req, res) => {
+    const replay = getReplayProvider();
+    if (!replay) {
+      return res.status(409).json({ error: 'Replay provider is not configured' });
+    }
+    
+    const { file } = req.body;
+    if (typeof file !== 'string' || !file) {
+      return res.status(400).json({ error: 'file must name a recording' });
+    }
+    
+    try {
+      await replay.load(resolveRecording(file));
+      dataQualityGuard.reset();
+      res.json(replay.getReplayState());
+    } catch (error) {
+      res.status(404).json({ error: `Recording '${file}' could not be loaded` });
+    }
+  });
+  
+  app.post('/api/replay/play', async (req, res) => {
+    const replay = getReplayProvider();
+    if (!replay) {
+      return res.status(409).json({ error: 'Replay provider is not configured' });
+    }
+    replay.play();
+    res.json(replay.getReplayState());
+  });
+  
+  app.post('/api/replay/pause', async (req, res) => {
+    const replay = getReplayProvider();
+    if (!replay) {
+      return res.status(409).json({ error: 'Replay provider is not configured' });
+    }
+    replay.pause();
+    res.json(replay.getReplayState());
+  });
+  
+  app.post('/api/replay/seek', async (req, res) => {
+    const replay = getReplayProvider();
+    if (!replay) {
+      return res.status(409).json({ error: 'Replay provider is not configured' });
+    }
+    
+    // Accepts an ISO timestamp or epoch milliseconds
+    const { timestamp } = req.body;
+    const target = typeof timestamp === 'number' ? timestamp : Date.parse(timestamp);
+    if (!Number.isFinite(target)) {
+      return res.status(400).json({ error: 'timestamp must be an ISO date or epoch milliseconds' });
+    }
+    
+    replay.seek(target);
+    // Seeking backwards would otherwise look like out-of-order ticks, and bars and signals would resume from the later timeline
+    dataQualityGuard.reset();
+    replay.getSubscriptions().forEach(symbol => {
+      candleAggregator.reset(symbol);
+      signalPipeline.reset(symbol);
+    });
+    res.json(replay.getReplayState());
+  });
+  
+  app.post('/api/replay/speed', async (req, res) => {
+    const replay = getReplayProvider();
+    if (!replay) {
+      return res.status(409).json({ error: 'Replay provider is not configured' });
+    }
+    
+    const { speed } = req.body;
+    if (speed !== 'max' && !(typeof speed === 'number' && speed > 0)) {
+      return res.status(400).json({ error: 'speed must be a positive number or "max"' });
+    }
+    
+    replay.setSpeed(speed as ReplaySpeed);
+    res.json(replay.getReplayState());
+  });
+  
   app.get('/api/backtest-stats', async (req, res) => {
     try {
       const stats = storage.getBacktestStats();
@@ -174,13 +708,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Start data service
-  if (dataService instanceof ForexService) {
-    dataService.connect().catch(error => {
-      console.error('Failed to connect to Finnhub:', error);
-    });
-  } else {
-    dataService.start();
-  }
+  marketDataWriter.start();
+  candleAggregator.start(() => dataService.now());
+  dataService.start().catch(error => {
+    console.error(`Failed to start ${dataService.name}:`, error);
+  });
+  
+  // Buffered ticks, pending quota usage and the open recording are written out before the process exits
+  const shutdown = async (signal: string) => {
+    console.log(`${signal} received, flushing before exit`);
+    try {
+      await marketDataWriter.stop();
+      await tickRecorder.stop();
+    } catch (error) {
+      console.error('Failed to flush on shutdown:', error);
+    }
+    quotaManager.flush();
+    process.exit(0);
+  };
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+  process.once('SIGINT', () => shutdown('SIGINT'));
   
   return httpServer;
 }
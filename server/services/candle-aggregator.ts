@@ -0,0 +1,183 @@
+import { Candle } from '@shared/schema.js';
+
+export type Timeframe = '1m' | '5m' | '15m' | '1h';
+
+export const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h'];
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000
+};
+
+export function isTimeframe(value: string): value is Timeframe {
+  return value in TIMEFRAME_MS;
+}
+
+// Start of the wall-clock bucket containing the timestamp (buckets are aligned to the epoch, i.e. UTC)
+export function getBucketStart(timestamp: number, timeframe: Timeframe): number {
+  const size = TIMEFRAME_MS[timeframe];
+  return Math.floor(timestamp / size) * size;
+}
+
+// Build bars from stored ticks (oldest first) the same way the live aggregator does, gap fills included
+export function buildCandles(
+  symbol: string,
+  timeframe: Timeframe,
+  ticks: Array<{ price: number; timestamp: number; volume?: number | null }>
+): Candle[] {
+  const candles: Candle[] = [];
+  const aggregator = new CandleAggregator([timeframe]);
+  aggregator.setCallbacks(candle => candles.push(candle));
+
+  ticks.forEach(tick => aggregator.addTick(symbol, tick.price, tick.timestamp, tick.volume ?? 0));
+  aggregator.flush(Number.POSITIVE_INFINITY);
+
+  return candles;
+}
+
+/**
+ * Turns the single-price market update stream into OHLC bars per symbol for
+ * each configured timeframe. Bars close on wall-clock boundaries, either when
+ * a tick for the next bucket arrives or when the periodic flush passes the
+ * boundary, and short gaps are filled with flat bars so indicator series stay
+ * evenly spaced.
+ */
+export class CandleAggregator {
+  private formingCandles = new Map<string, Candle>();
+  private lastClosedCandles = new Map<string, Candle>();
+  private flushInterval: NodeJS.Timeout | null = null;
+
+  // Allow late ticks to land in their bar before the flush closes it
+  private readonly closeGraceMs = 2000;
+  // Longer gaps (weekends, outages) are treated as breaks rather than filled
+  private readonly maxGapBars = 30;
+
+  private onCandleClosedCallback?: (candle: Candle) => void;
+
+  constructor(private readonly timeframes: Timeframe[] = TIMEFRAMES) {}
+
+  setCallbacks(onCandleClosed: (candle: Candle) => void) {
+    this.onCandleClosedCallback = onCandleClosed;
+  }
+
+  // The clock decides when bars close without a new tick; replays supply their virtual time
+  start(clock: () => number = Date.now) {
+    if (this.flushInterval) return;
+    this.flushInterval = setInterval(() => this.flush(clock()), 1000);
+  }
+
+  stop() {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+  }
+
+  addTick(symbol: string, price: number, timestamp: number, volume: number = 0): void {
+    if (!Number.isFinite(price) || !Number.isFinite(timestamp)) return;
+
+    for (const timeframe of this.timeframes) {
+      const key = this.getKey(symbol, timeframe);
+      const bucketStart = getBucketStart(timestamp, timeframe);
+      let candle = this.formingCandles.get(key);
+
+      if (candle && bucketStart < candle.openTime) {
+        // Tick belongs to a bar that is already closed
+        continue;
+      }
+
+      if (candle && bucketStart > candle.openTime) {
+        this.closeCandle(key, candle);
+        candle = undefined;
+      }
+
+      if (!candle) {
+        const lastClosed = this.lastClosedCandles.get(key);
+        if (lastClosed && bucketStart < lastClosed.closeTime) continue;
+
+        if (lastClosed) {
+          this.fillGap(key, lastClosed, bucketStart);
+        }
+
+        candle = {
+          symbol,
+          timeframe,
+          openTime: bucketStart,
+          closeTime: bucketStart + TIMEFRAME_MS[timeframe],
+          open: price,
+          high: price,
+          low: price,
+          close: price,
+          volume: 0,
+          tickCount: 0
+        };
+        this.formingCandles.set(key, candle);
+      }
+
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.volume += volume;
+      candle.tickCount++;
+    }
+  }
+
+  // Close every forming bar whose wall-clock window has ended
+  flush(now: number): void {
+    this.formingCandles.forEach((candle, key) => {
+      if (now >= candle.closeTime + this.closeGraceMs) {
+        this.closeCandle(key, candle);
+      }
+    });
+  }
+
+  // Drop a pair's forming and last closed bars without emitting them, e.g. after a replay seeks backwards
+  reset(symbol: string): void {
+    this.timeframes.forEach(timeframe => {
+      const key = this.getKey(symbol, timeframe);
+      this.formingCandles.delete(key);
+      this.lastClosedCandles.delete(key);
+    });
+  }
+
+  getFormingCandle(symbol: string, timeframe: Timeframe): Candle | undefined {
+    return this.formingCandles.get(this.getKey(symbol, timeframe));
+  }
+
+  private fillGap(key: string, lastClosed: Candle, nextOpenTime: number): void {
+    const size = TIMEFRAME_MS[lastClosed.timeframe as Timeframe];
+    const missingBars = (nextOpenTime - lastClosed.closeTime) / size;
+    if (missingBars <= 0 || missingBars > this.maxGapBars) return;
+
+    let previous = lastClosed;
+    for (let openTime = lastClosed.closeTime; openTime < nextOpenTime; openTime += size) {
+      const flat: Candle = {
+        symbol: lastClosed.symbol,
+        timeframe: lastClosed.timeframe,
+        openTime,
+        closeTime: openTime + size,
+        open: previous.close,
+        high: previous.close,
+        low: previous.close,
+        close: previous.close,
+        volume: 0,
+        tickCount: 0
+      };
+      this.lastClosedCandles.set(key, flat);
+      this.onCandleClosedCallback?.(flat);
+      previous = flat;
+    }
+  }
+
+  private closeCandle(key: string, candle: Candle): void {
+    this.formingCandles.delete(key);
+    this.lastClosedCandles.set(key, candle);
+    this.onCandleClosedCallback?.(candle);
+  }
+
+  private getKey(symbol: string, timeframe: Timeframe): string {
+    return `${symbol}:${timeframe}`;
+  }
+}
@@ -0,0 +1,144 @@
+import { CandlestickPattern, CANDLESTICK_PATTERNS } from '@shared/schema.js';
+
+export type CandlestickPatterns = Record<CandlestickPattern, boolean>;
+
+export interface PatternBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// The two bars before the current one, oldest first
+export interface PatternState {
+  previous: PatternBar[];
+}
+
+export function createPatternState(): PatternState {
+  return { previous: [] };
+}
+
+export function noPatterns(): CandlestickPatterns {
+  return Object.fromEntries(CANDLESTICK_PATTERNS.map(pattern => [pattern, false])) as CandlestickPatterns;
+}
+
+function body(bar: PatternBar): number {
+  return Math.abs(bar.close - bar.open);
+}
+
+function range(bar: PatternBar): number {
+  return bar.high - bar.low;
+}
+
+function upperWick(bar: PatternBar): number {
+  return bar.high - Math.max(bar.open, bar.close);
+}
+
+function lowerWick(bar: PatternBar): number {
+  return Math.min(bar.open, bar.close) - bar.low;
+}
+
+function isBullish(bar: PatternBar): boolean {
+  return bar.close > bar.open;
+}
+
+function isBearish(bar: PatternBar): boolean {
+  return bar.close < bar.open;
+}
+
+// A real body that makes up at least half of the bar's range
+function isLong(bar: PatternBar): boolean {
+  return range(bar) > 0 && body(bar) >= 0.5 * range(bar);
+}
+
+// Long lower (upper) wick at least twice the body, with little wick on the other side
+function isPinBar(bar: PatternBar, direction: 'up' | 'down'): boolean {
+  const size = range(bar);
+  if (size === 0) return false;
+  const [tail, nose] = direction === 'up'
+    ? [lowerWick(bar), upperWick(bar)]
+    : [upperWick(bar), lowerWick(bar)];
+  return tail >= 2 * body(bar) && tail >= 0.6 * size && nose <= 0.2 * size;
+}
+
+function isEngulfing(previous: PatternBar, current: PatternBar, direction: 'up' | 'down'): boolean {
+  if (direction === 'up') {
+    return isBearish(previous) && isBullish(current)
+      && current.open <= previous.close && current.close >= previous.open && body(current) > body(previous);
+  }
+  return isBullish(previous) && isBearish(current)
+    && current.open >= previous.close && current.close <= previous.open && body(current) > body(previous);
+}
+
+// Long bar, small-bodied pause, then a long bar back past the first bar's midpoint; FX rarely gaps, so no gaps are required
+function isStar(first: PatternBar, middle: PatternBar, last: PatternBar, direction: 'up' | 'down'): boolean {
+  const midpoint = (first.open + first.close) / 2;
+  const pause = body(middle) <= 0.3 * body(first);
+  if (direction === 'up') {
+    return isBearish(first) && isLong(first) && pause && isBullish(last) && last.close > midpoint;
+  }
+  return isBullish(first) && isLong(first) && pause && isBearish(last) && last.close < midpoint;
+}
+
+// Three long bars in one direction, each closing further and opening within the previous body
+function isThreeInARow(bars: PatternBar[], direction: 'up' | 'down'): boolean {
+  return bars.every((bar, i) => {
+    if (!isLong(bar) || (direction === 'up' ? !isBullish(bar) : !isBearish(bar))) return false;
+    if (i === 0) return true;
+
+    const previous = bars[i - 1];
+    const low = Math.min(previous.open, previous.close);
+    const high = Math.max(previous.open, previous.close);
+    const closesFurther = direction === 'up' ? bar.close > previous.close : bar.close < previous.close;
+    return closesFurther && bar.open >= low && bar.open <= high;
+  });
+}
+
+/**
+ * Patterns completed by the last bar of `bars` (oldest first). Only the last
+ * three bars are looked at; patterns that need more bars than are available
+ * are reported as absent.
+ */
+export function detectPatterns(bars: PatternBar[]): CandlestickPatterns {
+  const patterns = noPatterns();
+  const current = bars[bars.length - 1];
+  if (!current) return patterns;
+
+  const previous = bars[bars.length - 2];
+  const first = bars[bars.length - 3];
+
+  patterns.doji = range(current) > 0 && body(current) <= 0.1 * range(current);
+  patterns.hammer = isPinBar(current, 'up');
+  patterns.shootingStar = isPinBar(current, 'down');
+
+  if (previous) {
+    patterns.bullishEngulfing = isEngulfing(previous, current, 'up');
+    patterns.bearishEngulfing = isEngulfing(previous, current, 'down');
+    patterns.insideBar = current.high < previous.high && current.low > previous.low;
+  }
+
+  if (previous && first) {
+    patterns.morningStar = isStar(first, previous, current, 'up');
+    patterns.eveningStar = isStar(first, previous, current, 'down');
+    patterns.threeWhiteSoldiers = isThreeInARow([first, previous, current], 'up');
+    patterns.threeBlackCrows = isThreeInARow([first, previous, current], 'down');
+  }
+
+  return patterns;
+}
+
+// Bars without an open (tick-built series) open at the previous close
+export function updatePatterns(state: PatternState, bar: { open?: number; high: number; low: number; close: number }): CandlestickPatterns {
+  const previousClose = state.previous[state.previous.length - 1]?.close;
+  const current: PatternBar = {
+    open: bar.open ?? previousClose ?? bar.close,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close
+  };
+
+  const patterns = detectPatterns([...state.previous, current]);
+  state.previous.push(current);
+  if (state.previous.length > 2) state.previous.shift();
+  return patterns;
+}
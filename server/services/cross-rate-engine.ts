@@ -0,0 +1,142 @@
+import { parsePair } from './symbol-mapping.js';
+
+// Price of one unit of `base` in `quote`, as observed from a provider
+export interface ObservedQuote {
+  base: string;
+  quote: string;
+  bid: number;
+  ask: number;
+  timestamp: number;
+}
+
+export interface CrossRate {
+  symbol: string;
+  bid: number;
+  ask: number;
+  mid: number;
+  spread: number;
+  timestamp: number; // Oldest leg, so a cross is never fresher than its inputs
+  synthetic: boolean; // Derived through other currencies rather than quoted directly
+  path: string[]; // Currencies traversed, e.g. ['EUR', 'USD', 'JPY']
+}
+
+// One conversion step: selling a unit of `from` yields `bid` units of `to`, buying one costs `ask`
+interface Leg {
+  from: string;
+  to: string;
+  bid: number;
+  ask: number;
+  timestamp: number;
+}
+
+interface PathState {
+  cost: number;
+  bid: number;
+  ask: number;
+  timestamp: number;
+  path: string[];
+}
+
+/**
+ * Derives any currency pair from a set of observed quotes. Quotes form a graph
+ * of currencies; the best path between a pair's currencies is the one with the
+ * lowest combined relative spread (fewest legs on ties), and the synthetic
+ * bid/ask is the product of the legs' bids and asks, so spreads compound.
+ */
+export class CrossRateEngine {
+  private quotes = new Map<string, ObservedQuote>();
+
+  // Longer chains compound spreads and stale legs without adding information
+  constructor(private readonly maxLegs: number = 3) {}
+
+  setQuote(quote: ObservedQuote): void {
+    if (!(quote.bid > 0) || !(quote.ask >= quote.bid)) return;
+    this.quotes.set(`${quote.base}/${quote.quote}`, quote);
+  }
+
+  /**
+   * Load a table of mid rates where 1 `baseCode` = rates[currency] units, as
+   * published by rate APIs, applying an assumed relative spread around each mid.
+   */
+  loadRateTable(baseCode: string, rates: Record<string, number>, relativeSpread: number, timestamp: number = Date.now()): void {
+    const halfSpread = relativeSpread / 2;
+    Object.entries(rates).forEach(([currency, rate]) => {
+      if (currency === baseCode || !(rate > 0)) return;
+      this.setQuote({
+        base: baseCode,
+        quote: currency,
+        bid: rate * (1 - halfSpread),
+        ask: rate * (1 + halfSpread),
+        timestamp
+      });
+    });
+  }
+
+  clear(): void {
+    this.quotes.clear();
+  }
+
+  getRate(symbol: string): CrossRate | null {
+    const pair = parsePair(symbol);
+    if (!pair) return null;
+
+    const best = this.findBestPath(pair.base, pair.quote);
+    if (!best) return null;
+
+    return {
+      symbol,
+      bid: best.bid,
+      ask: best.ask,
+      mid: (best.bid + best.ask) / 2,
+      spread: best.ask - best.bid,
+      timestamp: best.timestamp,
+      synthetic: best.path.length > 2,
+      path: best.path
+    };
+  }
+
+  // Hop-limited Bellman-Ford over log spreads; the tiny per-leg penalty prefers shorter paths on ties
+  private findBestPath(from: string, to: string): PathState | null {
+    if (from === to) return null;
+
+    const legs = this.getLegs();
+    let best = new Map<string, PathState>([
+      [from, { cost: 0, bid: 1, ask: 1, timestamp: Number.POSITIVE_INFINITY, path: [from] }]
+    ]);
+
+    for (let hop = 0; hop < this.maxLegs; hop++) {
+      const next = new Map(best);
+
+      legs.forEach(leg => {
+        const current = best.get(leg.from);
+        if (!current || current.path.includes(leg.to)) return;
+
+        const cost = current.cost + Math.log(leg.ask / leg.bid) + 1e-9;
+        const existing = next.get(leg.to);
+        if (existing && existing.cost <= cost) return;
+
+        next.set(leg.to, {
+          cost,
+          bid: current.bid * leg.bid,
+          ask: current.ask * leg.ask,
+          timestamp: Math.min(current.timestamp, leg.timestamp),
+          path: current.path.concat(leg.to)
+        });
+      });
+
+      best = next;
+    }
+
+    return best.get(to) ?? null;
+  }
+
+  // Every quote can be traded in both directions; the reverse leg inverts and swaps bid/ask
+  private getLegs(): Leg[] {
+    const legs: Leg[] = [];
+    this.quotes.forEach(quote => {
+      legs.push({ from: quote.base, to: quote.quote, bid: quote.bid, ask: quote.ask, timestamp: quote.timestamp });
+      legs.push({ from: quote.quote, to: quote.base, bid: 1 / quote.ask, ask: 1 / quote.bid, timestamp: quote.timestamp });
+    });
+    return legs;
+  }
+}
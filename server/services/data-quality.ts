@@ -0,0 +1,312 @@
+import { DataQualityIssue, PairDataQuality, QuarantinedTick } from '@shared/schema.js';
+import { MarketDataProvider, MarketTick } from './market-data-provider.js';
+import { MarketCalendar, marketCalendar } from './market-calendar.js';
+
+export interface DataQualityOptions {
+  minSpikePct: number; // Moves smaller than this are never treated as spikes
+  spikeSigmas: number; // Allowed move in standard deviations of recent volatility over the gap
+  spikeConfirmTicks: number; // Consecutive ticks at a new level that turn a spike into a genuine gap
+  staleQuoteMs: number; // How long a quote may stay unchanged while the feed keeps sending it
+  degradedWindowMs: number; // How long a pair reports degraded after a quarantined tick
+  quarantineSize: number; // Quarantined ticks kept per pair for inspection
+}
+
+export type QualityVerdict =
+  | { accepted: true }
+  | { accepted: false; issue: DataQualityIssue; detail: string };
+
+const DEFAULT_OPTIONS: DataQualityOptions = {
+  minSpikePct: 1,
+  spikeSigmas: 10,
+  spikeConfirmTicks: 3,
+  staleQuoteMs: 60 * 60 * 1000,
+  degradedWindowMs: 5 * 60 * 1000,
+  quarantineSize: 100
+};
+
+// Volatility needs a few returns before it is trusted; until then only minSpikePct applies
+const VARIANCE_WARMUP_TICKS = 20;
+const VARIANCE_SMOOTHING = 0.05;
+
+interface PairState {
+  lastTimestamp: number | null; // Last accepted tick
+  lastPrice: number | null;
+  lastBid?: number;
+  lastAsk?: number;
+  lastVolume?: number;
+  lastTickAt: number | null; // Any tick, accepted or not
+  lastChangeAt: number | null;
+  variancePerSecond: number | null; // EWMA of squared log returns, scaled to one second
+  returnsSeen: number;
+  pendingLevel: { price: number; count: number } | null;
+  acceptedTicks: number;
+  quarantinedTicks: number;
+  issues: Partial<Record<DataQualityIssue, number>>;
+  lastIssueAt: number | null;
+  quarantine: QuarantinedTick[];
+}
+
+/**
+ * Sanity checks between the providers and the candle/signal pipeline. Ticks
+ * with invalid or crossed quotes, repeated or out-of-order timestamps,
+ * implausible jumps or a quote stuck at the same value are quarantined
+ * instead of reaching the indicators; per-pair counts and the most recent
+ * quarantined ticks are kept for the dashboard.
+ */
+export class DataQualityGuard {
+  private pairs = new Map<string, PairState>();
+  private readonly options: DataQualityOptions;
+
+  constructor(
+    private readonly feed: Pick<MarketDataProvider, 'now' | 'staleAfterMs'>,
+    options: Partial<DataQualityOptions> = {},
+    private readonly calendar: MarketCalendar = marketCalendar
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  check(tick: MarketTick): QualityVerdict {
+    const state = this.getState(tick.symbol);
+    const timestamp = Date.parse(tick.timestamp);
+    state.lastTickAt = Number.isFinite(timestamp) ? timestamp : this.feed.now();
+
+    const verdict = this.evaluate(state, tick, timestamp);
+    if (verdict.accepted) {
+      this.accept(state, tick, timestamp);
+    } else {
+      this.quarantine(state, tick, verdict.issue, verdict.detail);
+    }
+    return verdict;
+  }
+
+  getReport(symbols: string[]): PairDataQuality[] {
+    return symbols.map(symbol => this.getPairQuality(symbol));
+  }
+
+  getPairQuality(symbol: string): PairDataQuality {
+    const state = this.pairs.get(symbol);
+    if (!state) {
+      return {
+        symbol,
+        status: 'no_data',
+        lastTickAt: null,
+        lastChangeAt: null,
+        acceptedTicks: 0,
+        quarantinedTicks: 0,
+        issues: {}
+      };
+    }
+
+    return {
+      symbol,
+      status: this.getStatus(state),
+      lastTickAt: state.lastTickAt !== null ? new Date(state.lastTickAt).toISOString() : null,
+      lastChangeAt: state.lastChangeAt !== null ? new Date(state.lastChangeAt).toISOString() : null,
+      acceptedTicks: state.acceptedTicks,
+      quarantinedTicks: state.quarantinedTicks,
+      issues: { ...state.issues },
+      lastIssue: state.quarantine[state.quarantine.length - 1]
+    };
+  }
+
+  // Most recent quarantined ticks, newest first
+  getQuarantine(symbol?: string, limit: number = 100): QuarantinedTick[] {
+    const ticks: QuarantinedTick[] = [];
+    this.pairs.forEach((state, pair) => {
+      if (!symbol || pair === symbol) ticks.push(...state.quarantine);
+    });
+    return ticks
+      .sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt))
+      .slice(0, limit);
+  }
+
+  // Forget the history of a pair (or all pairs), e.g. after a replay seeks backwards
+  reset(symbol?: string): void {
+    if (symbol) {
+      this.pairs.delete(symbol);
+    } else {
+      this.pairs.clear();
+    }
+  }
+
+  private evaluate(state: PairState, tick: MarketTick, timestamp: number): QualityVerdict {
+    if (!Number.isFinite(timestamp)) {
+      return { accepted: false, issue: 'invalid_timestamp', detail: `Unparseable timestamp '${tick.timestamp}'` };
+    }
+    if (!isPositive(tick.price)
+      || (tick.bid !== undefined && !isPositive(tick.bid))
+      || (tick.ask !== undefined && !isPositive(tick.ask))) {
+      return { accepted: false, issue: 'invalid_price', detail: `Price ${tick.price}, bid ${tick.bid}, ask ${tick.ask}` };
+    }
+    if (tick.bid !== undefined && tick.ask !== undefined && tick.bid > tick.ask) {
+      return { accepted: false, issue: 'crossed_quote', detail: `Bid ${tick.bid} above ask ${tick.ask}` };
+    }
+
+    if (state.lastTimestamp === null || state.lastPrice === null) {
+      return { accepted: true };
+    }
+
+    // Several trades can share a millisecond; only an identical repeat is a duplicate
+    if (timestamp === state.lastTimestamp
+      && tick.price === state.lastPrice && tick.bid === state.lastBid
+      && tick.ask === state.lastAsk && tick.volume === state.lastVolume) {
+      return { accepted: false, issue: 'duplicate_timestamp', detail: `Repeated tick at ${tick.timestamp}` };
+    }
+    if (timestamp < state.lastTimestamp) {
+      return {
+        accepted: false,
+        issue: 'out_of_order',
+        detail: `${tick.timestamp} is before the last tick at ${new Date(state.lastTimestamp).toISOString()}`
+      };
+    }
+
+    const spike = this.checkSpike(state, tick.price, timestamp);
+    if (spike) return spike;
+
+    // A feed that keeps sending the same quote is stuck; a silent gap (weekend, restart) is not
+    const gapMs = timestamp - state.lastTimestamp;
+    const unchanged = tick.price === state.lastPrice && tick.bid === state.lastBid && tick.ask === state.lastAsk;
+    if (unchanged && state.lastChangeAt !== null && gapMs <= this.getStaleAfterMs()) {
+      const unchangedForMs = timestamp - state.lastChangeAt;
+      if (unchangedForMs > this.getStaleAfterMs()) {
+        return {
+          accepted: false,
+          issue: 'stale_quote',
+          detail: `Quote unchanged for ${Math.round(unchangedForMs / 60000)} minutes`
+        };
+      }
+    }
+
+    return { accepted: true };
+  }
+
+  private checkSpike(state: PairState, price: number, timestamp: number): QualityVerdict | null {
+    const move = Math.abs(Math.log(price / state.lastPrice!));
+    const allowed = this.getAllowedMove(state, (timestamp - state.lastTimestamp!) / 1000);
+    if (move <= allowed) {
+      state.pendingLevel = null;
+      return null;
+    }
+
+    // Several ticks agreeing on the new level mean the market really moved
+    const pending = state.pendingLevel;
+    if (pending && Math.abs(Math.log(price / pending.price)) <= this.options.minSpikePct / 100) {
+      pending.count++;
+    } else {
+      state.pendingLevel = { price, count: 1 };
+    }
+    if (state.pendingLevel!.count >= this.options.spikeConfirmTicks) {
+      state.pendingLevel = null;
+      return null;
+    }
+
+    return {
+      accepted: false,
+      issue: 'spike',
+      detail: `Moved ${(move * 100).toFixed(2)}% from ${state.lastPrice}, allowed ${(allowed * 100).toFixed(2)}%`
+    };
+  }
+
+  private getAllowedMove(state: PairState, elapsedSeconds: number): number {
+    const floor = this.options.minSpikePct / 100;
+    if (state.variancePerSecond === null || state.returnsSeen < VARIANCE_WARMUP_TICKS) {
+      return floor;
+    }
+    return Math.max(floor, this.options.spikeSigmas * Math.sqrt(state.variancePerSecond * Math.max(elapsedSeconds, 1)));
+  }
+
+  private accept(state: PairState, tick: MarketTick, timestamp: number): void {
+    if (state.lastPrice !== null && state.lastTimestamp !== null) {
+      const elapsedSeconds = Math.max((timestamp - state.lastTimestamp) / 1000, 1);
+      const sample = Math.log(tick.price / state.lastPrice) ** 2 / elapsedSeconds;
+      state.variancePerSecond = state.variancePerSecond === null
+        ? sample
+        : state.variancePerSecond + VARIANCE_SMOOTHING * (sample - state.variancePerSecond);
+      state.returnsSeen++;
+    }
+
+    const changed = tick.price !== state.lastPrice || tick.bid !== state.lastBid || tick.ask !== state.lastAsk;
+    const resumed = state.lastTimestamp !== null && timestamp - state.lastTimestamp > this.getStaleAfterMs();
+    if (changed || resumed || state.lastChangeAt === null) {
+      state.lastChangeAt = timestamp;
+    }
+
+    state.lastTimestamp = timestamp;
+    state.lastPrice = tick.price;
+    state.lastBid = tick.bid;
+    state.lastAsk = tick.ask;
+    state.lastVolume = tick.volume;
+    state.acceptedTicks++;
+  }
+
+  private quarantine(state: PairState, tick: MarketTick, issue: DataQualityIssue, detail: string): void {
+    state.quarantinedTicks++;
+    state.issues[issue] = (state.issues[issue] ?? 0) + 1;
+    state.lastIssueAt = this.feed.now();
+
+    state.quarantine.push({
+      symbol: tick.symbol,
+      price: tick.price,
+      bid: tick.bid,
+      ask: tick.ask,
+      timestamp: tick.timestamp,
+      issue,
+      detail,
+      quarantinedAt: new Date(state.lastIssueAt).toISOString()
+    });
+    if (state.quarantine.length > this.options.quarantineSize) {
+      state.quarantine.shift();
+    }
+  }
+
+  private getStatus(state: PairState): PairDataQuality['status'] {
+    if (state.lastTimestamp === null) {
+      return state.quarantinedTicks > 0 ? 'degraded' : 'no_data';
+    }
+
+    const now = this.feed.now();
+    // A closed market explains a quiet feed
+    if (this.calendar.isOpen(now)) {
+      const staleAfterMs = this.getStaleAfterMs();
+      const silentForMs = now - (state.lastTickAt ?? state.lastTimestamp);
+      const unchangedForMs = now - (state.lastChangeAt ?? state.lastTimestamp);
+      if (silentForMs > staleAfterMs || unchangedForMs > staleAfterMs) return 'stale';
+    }
+
+    if (state.lastIssueAt !== null && now - state.lastIssueAt < this.options.degradedWindowMs) {
+      return 'degraded';
+    }
+    return 'ok';
+  }
+
+  // Slow polling feeds legitimately repeat a quote for longer than the default
+  private getStaleAfterMs(): number {
+    return Math.max(this.options.staleQuoteMs, this.feed.staleAfterMs);
+  }
+
+  private getState(symbol: string): PairState {
+    let state = this.pairs.get(symbol);
+    if (!state) {
+      state = {
+        lastTimestamp: null,
+        lastPrice: null,
+        lastTickAt: null,
+        lastChangeAt: null,
+        variancePerSecond: null,
+        returnsSeen: 0,
+        pendingLevel: null,
+        acceptedTicks: 0,
+        quarantinedTicks: 0,
+        issues: {},
+        lastIssueAt: null,
+        quarantine: []
+      };
+      this.pairs.set(symbol, state);
+    }
+    return state;
+  }
+}
+
+function isPositive(value: number): boolean {
+  return Number.isFinite(value) && value > 0;
+}
@@ -1,4 +1,4 @@
-import { TechnicalIndicators, IndicatorResult } from './indicators.js';
+import { IndicatorResult } from './indicators.js';
 
 export interface DivergenceCandidate {
   type: 'bullish' | 'bearish' | 'hidden_bullish' | 'hidden_bearish';
@@ -1,4 +1,8 @@
-import { TradingSignal } from '@shared/schema';
+import { MarketDataProvider, MarketTick, ProviderStatus, Quote } from './market-data-provider.js';
+import { parsePair } from './symbol-mapping.js';
+import { CrossRateEngine } from './cross-rate-engine.js';
+import { quotaManager, QuotaExceededError } from './quota-manager.js';
+import { marketCalendar } from './market-calendar.js';
 
 export interface ExchangeRateData {
   result: string;
@@ -17,54 +21,57 @@ export interface ForexPair {
   quote: string;
   symbol: string;
   rate: number;
+  bid: number;
+  ask: number;
   timestamp: number;
   change24h?: number;
   volume?: number;
+  synthetic?: boolean;
 }
 
-export class ExchangeRateService {
+export class ExchangeRateService implements MarketDataProvider {
+  readonly id = 'exchangerate-v4';
+  readonly name = 'ExchangeRate-API (v4)';
+  
   private baseUrl = 'https://api.exchangerate-api.com/v4';
   private lastUpdate = 0;
   private cache = new Map<string, ExchangeRateData>();
-  private rateLimitDelay = 1000; // 1 second between requests to be respectful
+  private readonly minPollIntervalMs = 5 * 60 * 1000;
+  private readonly maxQuotaWaitMs = 60 * 1000; // Wait out the token bucket, never a daily reset
+  private errorCount = 0;
+  private crossRates = new CrossRateEngine();
+  private readonly hubCurrency = 'USD';
+  private readonly relativeSpread = 0.0004; // Approximate 2 pips each side of the published mid
   
-  // Major forex pairs to monitor
-  private readonly majorPairs = [
-    { base: 'EUR', quote: 'USD', symbol: 'EUR/USD' },
-    { base: 'GBP', quote: 'USD', symbol: 'GBP/USD' },
-    { base: 'USD', quote: 'JPY', symbol: 'USD/JPY' },
-    { base: 'USD', quote: 'CHF', symbol: 'USD/CHF' },
-    { base: 'AUD', quote: 'USD', symbol: 'AUD/USD' },
-    { base: 'USD', quote: 'CAD', symbol: 'USD/CAD' },
-    { base: 'NZD', quote: 'USD', symbol: 'NZD/USD' },
-    { base: 'EUR', quote: 'GBP', symbol: 'EUR/GBP' },
-    { base: 'EUR', quote: 'JPY', symbol: 'EUR/JPY' },
-    { base: 'GBP', quote: 'JPY', symbol: 'GBP/JPY' }
-  ];
+  // Forex pairs to monitor, subscribed from the forex_pairs table
+  private subscribedPairs: Array<{ base: string; quote: string; symbol: string }> = [];
   
-  private onSignalCallback?: (signal: TradingSignal) => void;
-  private onMarketUpdateCallback?: (update: any) => void;
-  private onSystemStatusCallback?: (status: any) => void;
+  private onMarketUpdateCallback?: (update: MarketTick) => void;
+  private onSystemStatusCallback?: (status: ProviderStatus) => void;
   
   private isRunning = false;
-  private updateInterval?: NodeJS.Timeout;
+  private pollTimer?: NodeJS.Timeout;
   private currentPairs: ForexPair[] = [];
 
   constructor() {
+    quotaManager.register(this.id, { limit: 1500, window: 'day' });
     console.log('ExchangeRate-API service initialized');
   }
 
+  // Three missed polls; polls are spaced to fit the request budget
+  get staleAfterMs(): number {
+    return 3 * this.getPollInterval();
+  }
+
   setCallbacks(
-    onSignal: (signal: TradingSignal) => void,
-    onMarketUpdate: (update: any) => void,
-    onSystemStatus: (status: any) => void
+    onMarketUpdate: (update: MarketTick) => void,
+    onSystemStatus: (status: ProviderStatus) => void
   ) {
-    this.onSignalCallback = onSignal;
     this.onMarketUpdateCallback = onMarketUpdate;
     this.onSystemStatusCallback = onSystemStatus;
   }
 
-  async connect(): Promise<void> {
+  async start(): Promise<void> {
     if (this.isRunning) {
       return;
     }
@@ -76,27 +83,9 @@ export class ExchangeRateService {
       // Initial data fetch
       await this.fetchAllRates();
       
-      // Set up periodic updates (every 5 minutes to respect rate limits)
-      this.updateInterval = setInterval(async () => {
-        try {
-          await this.fetchAllRates();
-        } catch (error) {
-          console.error('Error during periodic update:', error);
-        }
-      }, 5 * 60 * 1000); // 5 minutes
+      this.schedulePoll();
       
-      this.onSystemStatusCallback?.({
-        connected: true,
-        mode: 'live',
-        provider: 'ExchangeRate-API',
-        pairs: this.majorPairs.length,
-        lastUpdate: new Date().toISOString(),
-        rateLimit: {
-          current: 0,
-          max: 1500, // Daily limit estimate
-          resetTime: 'Daily reset'
-        }
-      });
+      this.onSystemStatusCallback?.(this.getConnectionStatus());
       
       console.log('Connected to ExchangeRate-API successfully');
     } catch (error) {
@@ -106,11 +95,11 @@ export class ExchangeRateService {
     }
   }
 
-  async disconnect(): Promise<void> {
+  async stop(): Promise<void> {
     this.isRunning = false;
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-      this.updateInterval = undefined;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
     }
     console.log('Disconnected from ExchangeRate-API');
   }
@@ -125,6 +114,8 @@ export class ExchangeRateService {
       return cached;
     }
 
+    await quotaManager.acquire(this.id, this.maxQuotaWaitMs);
+
     try {
       const response = await fetch(`${this.baseUrl}/latest/${base}`);
       
@@ -150,67 +141,86 @@ export class ExchangeRateService {
 
   private async fetchAllRates(): Promise<void> {
     try {
-      const bases = ['USD', 'EUR', 'GBP']; // Fetch major bases to get all pairs
-      const ratePromises = bases.map(base => this.fetchRatesForBase(base));
+      if (this.subscribedPairs.length === 0) return;
       
-      // Stagger requests to be respectful of rate limits
-      const rateData: ExchangeRateData[] = [];
-      for (const promise of ratePromises) {
-        const data = await promise;
-        rateData.push(data);
-        // Small delay between requests
-        await new Promise(resolve => setTimeout(resolve, this.rateLimitDelay));
+      // Every table lists all currencies, so the USD table alone prices every pair; crosses are triangulated through it
+      let rateData: ExchangeRateData;
+      try {
+        rateData = await this.fetchRatesForBase(this.hubCurrency);
+      } catch (error) {
+        if (!(error instanceof QuotaExceededError)) throw error;
+        // Keep the previous rates when the poll was skipped for budget
+        console.warn(error.message);
+        return;
       }
       
       // Process the rate data into forex pairs
       this.procesRateData(rateData);
       
-      // Broadcast market update
-      this.onMarketUpdateCallback?.({
-        timestamp: new Date().toISOString(),
-        pairs: this.currentPairs,
-        provider: 'ExchangeRate-API'
+      // Broadcast one market update per pair so downstream consumers see a uniform tick stream
+      this.currentPairs.forEach(pair => {
+        const changePercent = pair.change24h ?? 0;
+        
+        this.onMarketUpdateCallback?.({
+          symbol: pair.symbol,
+          price: pair.rate,
+          change: pair.rate * changePercent / 100,
+          changePercent,
+          timestamp: new Date(pair.timestamp).toISOString(),
+          synthetic: pair.synthetic
+        });
       });
       
     } catch (error) {
       console.error('Error fetching all rates:', error);
+      this.errorCount++;
       throw error;
     }
   }
 
-  private procesRateData(rateDataArray: ExchangeRateData[]): void {
+  // Poll spacing spreads the remaining budget evenly until the quota window resets
+  private schedulePoll(): void {
+    if (!this.isRunning) return;
+
+    this.pollTimer = setTimeout(async () => {
+      try {
+        // Rates do not move while the market is closed, so the request budget is saved
+        if (marketCalendar.isOpen(Date.now())) {
+          await this.fetchAllRates();
+        }
+      } catch (error) {
+        console.error('Error during periodic update:', error);
+      }
+      this.schedulePoll();
+    }, this.getPollInterval());
+  }
+
+  private getPollInterval(): number {
+    return quotaManager.getPollInterval(this.id, this.minPollIntervalMs);
+  }
+
+  private procesRateData(rateData: ExchangeRateData): void {
     const updatedPairs: ForexPair[] = [];
     const timestamp = Date.now();
     
-    for (const rateData of rateDataArray) {
-      const baseCode = rateData.base_code;
+    // Pairs without the hub currency are triangulated, compounding the spread of both legs
+    this.crossRates.clear();
+    this.crossRates.loadRateTable(rateData.base_code, rateData.rates, this.relativeSpread, timestamp);
+    
+    for (const pair of this.subscribedPairs) {
+      const rate = this.crossRates.getRate(pair.symbol);
+      if (!rate) continue;
       
-      // Find pairs that match this base
-      for (const pair of this.majorPairs) {
-        if (pair.base === baseCode && rateData.rates[pair.quote]) {
-          const rate = rateData.rates[pair.quote];
-          
-          updatedPairs.push({
-            base: pair.base,
-            quote: pair.quote,
-            symbol: pair.symbol,
-            rate: rate,
-            timestamp: timestamp
-          });
-        }
-        // Handle reverse pairs (e.g., USD/EUR from EUR base)
-        else if (pair.quote === baseCode && rateData.rates[pair.base]) {
-          const reverseRate = 1 / rateData.rates[pair.base];
-          
-          updatedPairs.push({
-            base: pair.base,
-            quote: pair.quote,
-            symbol: pair.symbol,
-            rate: reverseRate,
-            timestamp: timestamp
-          });
-        }
-      }
+      updatedPairs.push({
+        base: pair.base,
+        quote: pair.quote,
+        symbol: pair.symbol,
+        rate: rate.mid,
+        bid: rate.bid,
+        ask: rate.ask,
+        timestamp: timestamp,
+        synthetic: rate.synthetic
+      });
     }
     
     // Calculate price changes if we have previous data
@@ -237,19 +247,55 @@ export class ExchangeRateService {
     return [...this.currentPairs];
   }
 
+  // ExchangeRate-API publishes mid rates only; bid and ask apply the assumed spread
+  getQuotes(): Quote[] {
+    return this.currentPairs.map(pair => ({
+      symbol: pair.symbol,
+      bid: pair.bid,
+      ask: pair.ask,
+      spread: pair.ask - pair.bid,
+      timestamp: pair.timestamp,
+      synthetic: pair.synthetic
+    }));
+  }
+
   // Check if service is connected
   isConnected(): boolean {
     return this.isRunning;
   }
 
+  now(): number {
+    return Date.now();
+  }
+
+  async subscribe(symbols: string[]): Promise<void> {
+    symbols.forEach(symbol => {
+      const pair = parsePair(symbol);
+      if (pair && !this.subscribedPairs.some(existing => existing.symbol === symbol)) {
+        this.subscribedPairs.push({ ...pair, symbol });
+      }
+    });
+  }
+
+  async unsubscribe(symbols: string[]): Promise<void> {
+    this.subscribedPairs = this.subscribedPairs.filter(pair => !symbols.includes(pair.symbol));
+    this.currentPairs = this.currentPairs.filter(pair => !symbols.includes(pair.symbol));
+  }
+
+  getSubscriptions(): string[] {
+    return this.subscribedPairs.map(pair => pair.symbol);
+  }
+
   // Get service status
-  getStatus() {
+  getConnectionStatus(): ProviderStatus {
     return {
       connected: this.isRunning,
-      provider: 'ExchangeRate-API',
-      pairsCount: this.currentPairs.length,
-      lastUpdate: this.lastUpdate,
-      cacheSize: this.cache.size
+      mode: 'live',
+      provider: this.name,
+      lastUpdate: new Date(this.lastUpdate).toISOString(),
+      activePairs: this.subscribedPairs.length,
+      errorCount: this.errorCount,
+      rateLimit: quotaManager.getRateLimit(this.id)
     };
   }
 }
\ No newline at end of file
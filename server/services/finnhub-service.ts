@@ -1,63 +1,100 @@
 import WebSocket from 'ws';
-import { TradingSignal, SystemStatus, MarketUpdate, SignalUpdate } from '@shared/schema';
+import { MarketDataProvider, MarketTick, ProviderStatus, Quote } from './market-data-provider.js';
+import { toFinnhubSymbol, fromFinnhubSymbol } from './symbol-mapping.js';
+import { quotaManager } from './quota-manager.js';
+
+export const FINNHUB_WS_URL = 'wss://ws.finnhub.io';
+
+export interface FinnhubServiceOptions {
+  url?: string; // WebSocket endpoint, e.g. a local mock server; defaults to FINNHUB_WS_URL
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  maxReconnectAttempts?: number;
+}
 
 /**
  * Finnhub WebSocket service for real-time forex data
  * Production-ready implementation with automatic reconnection
  * and comprehensive error handling.
  */
-export class FinnhubService {
+export class FinnhubService implements MarketDataProvider {
+  readonly id = 'finnhub';
+  readonly name = 'Finnhub';
+  readonly staleAfterMs = 60 * 1000;
+  
   private ws: WebSocket | null = null;
   private reconnectInterval: NodeJS.Timeout | null = null;
   private pingInterval: NodeJS.Timeout | null = null;
   private apiKey: string;
-  private isConnected = false;
+  private url: string;
+  private connected = false;
+  private stopped = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 5000; // Start with 5 seconds
-  private maxReconnectDelay = 60000; // Max 1 minute
+  private errorCount = 0;
+  private maxReconnectAttempts: number;
+  private initialReconnectDelay: number;
+  private reconnectDelay: number;
+  private maxReconnectDelay: number;
+  private readonly maxQuotaWaitMs = 60 * 1000; // Free plan: 60 calls a minute, 30 a second
   
   // Callbacks for data events
-  private onSignalCallback?: (signal: TradingSignal) => void;
-  private onMarketUpdateCallback?: (update: any) => void;
-  private onSystemStatusCallback?: (status: any) => void;
+  private onMarketUpdateCallback?: (update: MarketTick) => void;
+  private onSystemStatusCallback?: (status: ProviderStatus) => void;
   
-  // Active forex pairs to monitor
-  private subscribedPairs = [
-    'OANDA:EUR_USD', 'OANDA:GBP_USD', 'OANDA:USD_JPY', 
-    'OANDA:USD_CHF', 'OANDA:AUD_USD', 'OANDA:USD_CAD',
-    'OANDA:NZD_USD', 'OANDA:EUR_GBP', 'OANDA:EUR_JPY', 'OANDA:GBP_JPY'
-  ];
+  // Active forex pairs to monitor, subscribed from the forex_pairs table
+  private subscribedPairs = new Set<string>();
+  private lastTrades = new Map<string, Quote>();
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: FinnhubServiceOptions = {}) {
     this.apiKey = apiKey;
+    this.url = options.url || FINNHUB_WS_URL;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.initialReconnectDelay = options.reconnectDelayMs ?? 5000; // Start with 5 seconds
+    this.reconnectDelay = this.initialReconnectDelay;
+    this.maxReconnectDelay = options.maxReconnectDelayMs ?? 60000; // Max 1 minute
+    quotaManager.register(this.id, { limit: 60, window: 'minute', burst: 30 });
   }
 
   setCallbacks(
-    onSignal: (signal: TradingSignal) => void,
-    onMarketUpdate: (update: any) => void,
-    onSystemStatus: (status: any) => void
+    onMarketUpdate: (update: MarketTick) => void,
+    onSystemStatus: (status: ProviderStatus) => void
   ) {
-    this.onSignalCallback = onSignal;
     this.onMarketUpdateCallback = onMarketUpdate;
     this.onSystemStatusCallback = onSystemStatus;
   }
 
-  async connect(): Promise<void> {
-    if (this.isConnected || this.ws?.readyState === WebSocket.OPEN) {
+  // A restart, e.g. a failover recovery probe, gets the full reconnect budget again
+  async start(): Promise<void> {
+    this.stopped = false;
+    this.reconnectAttempts = 0;
+    this.reconnectDelay = this.initialReconnectDelay;
+    await this.connect();
+  }
+
+  private async connect(): Promise<void> {
+    if (this.connected || this.ws?.readyState === WebSocket.OPEN || this.ws?.readyState === WebSocket.CONNECTING) {
       console.log('Finnhub WebSocket already connected');
       return;
     }
 
     try {
-      console.log('Connecting to Finnhub WebSocket...');
-      this.ws = new WebSocket(`wss://ws.finnhub.io?token=${this.apiKey}`);
+      await quotaManager.acquire(this.id, this.maxQuotaWaitMs);
+      if (this.stopped) return;
+      
+      const url = new URL(this.url);
+      url.searchParams.set('token', this.apiKey);
+      
+      console.log(`Connecting to Finnhub WebSocket at ${url.origin}...`);
+      const ws = new WebSocket(url);
+      this.ws = ws;
       
-      this.ws.on('open', () => {
+      // Events from a socket that has since been replaced are ignored
+      ws.on('open', () => {
+        if (this.ws !== ws) return;
         console.log('Connected to Finnhub WebSocket');
-        this.isConnected = true;
+        this.connected = true;
         this.reconnectAttempts = 0;
-        this.reconnectDelay = 5000; // Reset delay
+        this.reconnectDelay = this.initialReconnectDelay; // Reset delay
         
         // Subscribe to forex pairs
         this.subscribeToForexPairs();
@@ -73,8 +110,8 @@ export class FinnhubService {
         this.onSystemStatusCallback?.({
           connected: true,
           mode: 'live',
-          provider: 'Finnhub',
-          rateLimit: { current: 0, max: 60, resetTime: '1 minute' },
+          provider: this.name,
+          rateLimit: quotaManager.getRateLimit(this.id),
           uptime: Date.now(),
           finnhubConnected: true,
           dataProcessing: true,
@@ -82,53 +119,101 @@ export class FinnhubService {
         });
       });
       
-      this.ws.on('message', (data: Buffer) => {
+      ws.on('message', (data: Buffer) => {
+        if (this.ws !== ws) return;
         try {
           const message = JSON.parse(data.toString());
           this.handleMessage(message);
         } catch (error) {
           console.error('Error parsing Finnhub message:', error);
+          this.errorCount++;
         }
       });
       
-      this.ws.on('error', (error) => {
-        console.error('Finnhub WebSocket error:', error);
-        this.isConnected = false;
-        this.scheduleReconnect();
+      // Every error is followed by 'close', which schedules the single reconnect
+      ws.on('error', (error) => {
+        if (this.ws !== ws) return;
+        console.error('Finnhub WebSocket error:', error.message);
+        this.errorCount++;
+        this.connected = false;
       });
       
-      this.ws.on('close', (code, reason) => {
+      ws.on('close', (code, reason) => {
+        if (this.ws !== ws) return;
+        this.ws = null;
         console.log(`Finnhub WebSocket disconnected - Code: ${code}, Reason: ${reason.toString() || 'Unknown'}`);
-        this.isConnected = false;
+        this.connected = false;
         this.clearIntervals();
         this.scheduleReconnect();
       });
       
     } catch (error) {
       console.error('Failed to connect to Finnhub:', error);
-      this.isConnected = false;
+      this.connected = false;
       this.scheduleReconnect();
     }
   }
 
   private subscribeToForexPairs(): void {
-    this.subscribedPairs.forEach(pair => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({
-          type: 'subscribe',
-          symbol: pair
-        }));
-        console.log(`Subscribed to ${pair}`);
-      }
-    });
+    this.subscribedPairs.forEach(pair => this.sendSubscription('subscribe', pair));
+  }
+
+  // Subscription frames count against the API budget; frames that cannot fit in it are dropped
+  private async sendSubscription(type: 'subscribe' | 'unsubscribe', pair: string): Promise<void> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    
+    try {
+      await quotaManager.acquire(this.id, this.maxQuotaWaitMs);
+    } catch (error) {
+      console.warn(`Skipping Finnhub ${type} for ${pair}:`, (error as Error).message);
+      return;
+    }
+    
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      const symbol = toFinnhubSymbol(pair);
+      this.ws.send(JSON.stringify({ type, symbol }));
+      console.log(`${type === 'subscribe' ? 'Subscribed to' : 'Unsubscribed from'} ${symbol}`);
+    }
+  }
+
+  async subscribe(symbols: string[]): Promise<void> {
+    const added = symbols.filter(symbol => !this.subscribedPairs.has(symbol));
+    added.forEach(symbol => this.subscribedPairs.add(symbol));
+    await Promise.all(added.map(symbol => this.sendSubscription('subscribe', symbol)));
+  }
+
+  async unsubscribe(symbols: string[]): Promise<void> {
+    const removed = symbols.filter(symbol => this.subscribedPairs.has(symbol));
+    removed.forEach(symbol => this.subscribedPairs.delete(symbol));
+    await Promise.all(removed.map(symbol => this.sendSubscription('unsubscribe', symbol)));
+  }
+
+  getSubscriptions(): string[] {
+    return Array.from(this.subscribedPairs);
+  }
+
+  getQuotes(): Quote[] {
+    return Array.from(this.lastTrades.values()).filter(quote => this.subscribedPairs.has(quote.symbol));
   }
 
   private handleMessage(message: any): void {
     if (message.type === 'trade') {
+      if (!Array.isArray(message.data)) {
+        console.warn('Ignoring Finnhub trade message without data');
+        this.errorCount++;
+        return;
+      }
+      
       // Handle real-time trade data
-      for (const trade of message.data || []) {
-        const marketUpdate = {
-          symbol: this.convertSymbolFormat(trade.s),
+      for (const trade of message.data) {
+        if (!isValidTrade(trade)) {
+          console.warn('Ignoring malformed Finnhub trade:', JSON.stringify(trade));
+          this.errorCount++;
+          continue;
+        }
+        
+        const marketUpdate: MarketTick = {
+          symbol: fromFinnhubSymbol(trade.s),
           price: trade.p,
           change: trade.p - (trade.p * 0.999), // Simulated change
           changePercent: ((trade.p - (trade.p * 0.999)) / trade.p) * 100,
@@ -136,85 +221,39 @@ export class FinnhubService {
           volume: trade.v || 1000
         };
         
-        this.onMarketUpdateCallback?.(marketUpdate);
+        // Trades carry a single price, so bid and ask coincide
+        this.lastTrades.set(marketUpdate.symbol, {
+          symbol: marketUpdate.symbol,
+          bid: trade.p,
+          ask: trade.p,
+          spread: 0,
+          timestamp: trade.t
+        });
         
-        // Generate trading signal based on price movement
-        this.generateTradingSignal(trade);
+        this.onMarketUpdateCallback?.(marketUpdate);
       }
     } else if (message.type === 'ping') {
       // Respond to ping
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
         this.ws.send(JSON.stringify({ type: 'pong' }));
       }
+    } else if (message.type === 'error') {
+      // e.g. an invalid API key or a symbol the plan does not cover
+      console.error('Finnhub error:', message.msg);
+      this.errorCount++;
     }
   }
 
-  private generateTradingSignal(trade: any): void {
-    // Simple signal generation logic - in production, use advanced technical analysis
-    const symbol = this.convertSymbolFormat(trade.s);
-    const price = trade.p;
-    const volume = trade.v || 1000;
-    
-    // Generate signal based on price and volume momentum
-    const signal = volume > 1500 ? (Math.random() > 0.5 ? 'BUY' : 'SELL') : 'HOLD';
-    const confidence = Math.min(0.95, Math.max(0.3, (volume / 2000) + Math.random() * 0.3));
-    
-    if (signal !== 'HOLD') {
-      const tradingSignal: TradingSignal = {
-        id: `signal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        timestamp: new Date(trade.t),
-        pair: symbol,
-        timeframe: '1m',
-        signal: signal as 'BUY' | 'SELL',
-        confidence: confidence,
-        reason: `${signal} signal generated from ${symbol} price movement at ${price.toFixed(5)} with volume ${volume}`,
-        entryPrice: price,
-        entryType: 'market',
-        stopLoss: signal === 'BUY' ? price * 0.98 : price * 1.02,
-        takeProfit: signal === 'BUY' ? price * 1.02 : price * 0.98,
-        predictionHorizonMins: 5,
-        expectedMovePct: signal === 'BUY' ? 2.0 : -2.0,
-        indicatorValues: {
-          price: price,
-          volume: volume,
-          timestamp: trade.t
-        },
-        backtestStats: {
-          realized_pnl: Math.random() > 0.6 ? (Math.random() * 0.02 - 0.01) : 0,
-          unrealized_pnl: Math.random() * 0.01 - 0.005
-        }
-      };
-      
-      this.onSignalCallback?.(tradingSignal);
-    }
-  }
-
-  private convertSymbolFormat(finnhubSymbol: string): string {
-    // Convert Finnhub symbol format to standard forex format
-    const mapping: { [key: string]: string } = {
-      'OANDA:EUR_USD': 'EUR/USD',
-      'OANDA:GBP_USD': 'GBP/USD',
-      'OANDA:USD_JPY': 'USD/JPY',
-      'OANDA:USD_CHF': 'USD/CHF',
-      'OANDA:AUD_USD': 'AUD/USD',
-      'OANDA:USD_CAD': 'USD/CAD',
-      'OANDA:NZD_USD': 'NZD/USD',
-      'OANDA:EUR_GBP': 'EUR/GBP',
-      'OANDA:EUR_JPY': 'EUR/JPY',
-      'OANDA:GBP_JPY': 'GBP/JPY'
-    };
-    
-    return mapping[finnhubSymbol] || finnhubSymbol;
-  }
-
   private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectInterval) return;
+    
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('Max reconnection attempts reached. Stopping reconnection.');
       this.onSystemStatusCallback?.({
         connected: false,
         mode: 'offline',
-        provider: 'Finnhub',
-        rateLimit: { current: 0, max: 60 },
+        provider: this.name,
+        rateLimit: quotaManager.getRateLimit(this.id),
         finnhubConnected: false,
         dataProcessing: false,
         signalEngine: false
@@ -226,6 +265,7 @@ export class FinnhubService {
     console.log(`Scheduling reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${this.reconnectDelay}ms`);
     
     this.reconnectInterval = setTimeout(() => {
+      this.reconnectInterval = null;
       this.connect().catch(error => {
         console.error('Reconnection failed:', error);
       });
@@ -250,9 +290,10 @@ export class FinnhubService {
     }
   }
 
-  async disconnect(): Promise<void> {
+  async stop(): Promise<void> {
     console.log('Disconnecting from Finnhub...');
-    this.isConnected = false;
+    this.stopped = true;
+    this.connected = false;
     this.clearIntervals();
     
     if (this.ws) {
@@ -263,24 +304,46 @@ export class FinnhubService {
     this.onSystemStatusCallback?.({
       connected: false,
       mode: 'offline',
-      provider: 'Finnhub',
-      rateLimit: { current: 0, max: 60 },
+      provider: this.name,
+      rateLimit: quotaManager.getRateLimit(this.id),
       finnhubConnected: false,
       dataProcessing: false,
       signalEngine: false
     });
   }
 
-  isConnectionHealthy(): boolean {
-    return this.isConnected && this.ws?.readyState === WebSocket.OPEN;
+  isConnected(): boolean {
+    return this.connected && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  now(): number {
+    return Date.now();
   }
 
-  getConnectionStatus(): any {
+  getConnectionStatus(): ProviderStatus {
     return {
-      connected: this.isConnected,
-      readyState: this.ws?.readyState,
+      connected: this.isConnected(),
+      mode: this.connected ? 'live' : 'offline',
+      provider: this.name,
+      rateLimit: quotaManager.getRateLimit(this.id),
+      activePairs: this.subscribedPairs.size,
+      errorCount: this.errorCount,
       reconnectAttempts: this.reconnectAttempts,
-      subscribedPairs: this.subscribedPairs.length
+      finnhubConnected: this.connected
     };
   }
-}
\ No newline at end of file
+}
+
+interface FinnhubTrade {
+  s: string; // Symbol, e.g. OANDA:EUR_USD
+  p: number; // Price
+  t: number; // Epoch ms
+  v?: number; // Volume
+}
+
+function isValidTrade(trade: any): trade is FinnhubTrade {
+  return typeof trade?.s === 'string'
+    && typeof trade.p === 'number'
+    && typeof trade.t === 'number'
+    && (trade.v === undefined || typeof trade.v === 'number');
+}
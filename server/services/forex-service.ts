@@ -1,4 +1,7 @@
-import { TradingSignal } from '@shared/schema';
+import { MarketDataProvider, MarketTick, ProviderStatus, Quote } from './market-data-provider.js';
+import { CrossRateEngine } from './cross-rate-engine.js';
+import { quotaManager, QuotaExceededError } from './quota-manager.js';
+import { marketCalendar } from './market-calendar.js';
 
 export interface ForexRate {
   symbol: string;
@@ -7,6 +10,7 @@ export interface ForexRate {
   spread: number;
   timestamp: number;
   change24h?: number;
+  synthetic?: boolean;
 }
 
 export interface ExchangeRateResponse {
@@ -24,49 +28,54 @@ export interface ExchangeRateResponse {
 }
 
 // Enhanced forex service with multiple data sources
-export class ForexService {
+export class ForexService implements MarketDataProvider {
+  readonly id = 'exchangerate';
+  readonly name = 'ExchangeRate-API';
+  
   private exchangeRateBaseUrl = 'https://open.er-api.com/v6';
-  private onSignalCallback?: (signal: TradingSignal) => void;
-  private onMarketUpdateCallback?: (update: any) => void;
-  private onSystemStatusCallback?: (status: any) => void;
+  private onMarketUpdateCallback?: (update: MarketTick) => void;
+  private onSystemStatusCallback?: (status: ProviderStatus) => void;
   
   private isRunning = false;
-  private updateInterval?: NodeJS.Timeout;
+  private pollTimer?: NodeJS.Timeout;
   private currentRates = new Map<string, ForexRate>();
   private lastRequestTime = 0;
-  private requestCount = 0;
-  private readonly rateLimitDelay = 300000; // 5 minutes between requests for more frequent updates
+  private errorCount = 0;
+  private readonly minPollIntervalMs = 5 * 60 * 1000; // The API refreshes rates no faster than this
+  private readonly relativeSpread = 0.0004; // Approximate 2 pips each side of the published mid
+  private crossRates = new CrossRateEngine();
   
-  // Finnhub integration for real-time data
-  private finnhubApiKey?: string;
   private exchangeRateApiKey?: string;
 
-  // Major forex pairs to monitor
-  private readonly subscribedPairs = [
-    'EUR/USD', 'GBP/USD', 'USD/JPY', 'USD/CHF', 
-    'AUD/USD', 'USD/CAD', 'NZD/USD', 'EUR/GBP'
-  ];
+  // Forex pairs to monitor, subscribed from the forex_pairs table
+  private subscribedPairs = new Set<string>();
 
   constructor() {
-    this.finnhubApiKey = process.env.FINNHUB_API_KEY;
     this.exchangeRateApiKey = process.env.EXCHANGERATE_API_KEY;
     
+    // Free tier: 24 requests a day; with a key: 1000 a month
+    quotaManager.register(this.id, this.exchangeRateApiKey
+      ? { limit: 1000, window: 'month' }
+      : { limit: 24, window: 'day' });
+    
     console.log('Enhanced Forex service initialized');
-    console.log(`Finnhub API: ${this.finnhubApiKey ? 'Available' : 'Missing'}`);
     console.log(`ExchangeRate API: ${this.exchangeRateApiKey ? 'Available' : 'Missing'}`);
   }
 
+  // Three missed polls; polls are spaced to fit the request budget
+  get staleAfterMs(): number {
+    return 3 * quotaManager.getPollInterval(this.id, this.minPollIntervalMs);
+  }
+
   setCallbacks(
-    onSignal: (signal: TradingSignal) => void,
-    onMarketUpdate: (update: any) => void,
-    onSystemStatus: (status: any) => void
+    onMarketUpdate: (update: MarketTick) => void,
+    onSystemStatus: (status: ProviderStatus) => void
   ) {
-    this.onSignalCallback = onSignal;
     this.onMarketUpdateCallback = onMarketUpdate;
     this.onSystemStatusCallback = onSystemStatus;
   }
 
-  async connect(): Promise<void> {
+  async start(): Promise<void> {
     if (this.isRunning) {
       return;
     }
@@ -78,27 +87,9 @@ export class ForexService {
       // Test connection with initial data fetch
       await this.fetchLatestRates();
       
-      // Set up periodic updates (every 5 minutes for more responsive data)
-      this.updateInterval = setInterval(async () => {
-        try {
-          await this.fetchLatestRates();
-          this.generateMockSignals(); // Generate trading signals based on rate changes
-        } catch (error) {
-          console.error('Error during periodic update:', error);
-        }
-      }, this.rateLimitDelay);
+      this.schedulePoll();
       
-      this.onSystemStatusCallback?.({
-        connected: true,
-        mode: 'live',
-        provider: this.finnhubApiKey ? 'Finnhub + ExchangeRate-API' : 'ExchangeRate-API',
-        rateLimit: {
-          current: this.requestCount,
-          max: this.exchangeRateApiKey ? 1000 : 24, // With API key: 1000/month, Free tier: 24/day
-          resetTime: this.exchangeRateApiKey ? '1 month' : '24 hours'
-        },
-        uptime: Date.now()
-      });
+      this.onSystemStatusCallback?.(this.getConnectionStatus());
       
       console.log('Connected to forex data services successfully');
     } catch (error) {
@@ -108,101 +99,33 @@ export class ForexService {
     }
   }
 
-  async disconnect(): Promise<void> {
+  async stop(): Promise<void> {
     this.isRunning = false;
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-      this.updateInterval = undefined;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
     }
     console.log('Disconnected from forex data services');
   }
 
-  // Generate trading signals based on market data
-  private generateMockSignals(): void {
-    const pairs = this.subscribedPairs;
-    
-    // Generate 1-3 signals per update cycle
-    const numSignals = Math.floor(Math.random() * 3) + 1;
-    
-    for (let i = 0; i < numSignals; i++) {
-      const pair = pairs[Math.floor(Math.random() * pairs.length)];
-      const rate = this.currentRates.get(pair);
-      
-      if (rate) {
-        const signal = Math.random() > 0.5 ? 'BUY' : 'SELL';
-        const confidence = Math.min(0.95, Math.max(0.4, Math.random() * 0.6 + 0.3));
-        const price = rate.bid + (rate.ask - rate.bid) / 2; // Mid price
-        
-        const tradingSignal: TradingSignal = {
-          id: `signal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp: new Date(),
-          pair: pair,
-          timeframe: '5m',
-          signal: signal as 'BUY' | 'SELL',
-          confidence: confidence,
-          reason: `${signal} signal for ${pair} based on market momentum analysis. Price: ${price.toFixed(5)}`,
-          entryPrice: price,
-          entryType: 'market',
-          stopLoss: signal === 'BUY' ? price * 0.995 : price * 1.005,
-          takeProfit: signal === 'BUY' ? price * 1.005 : price * 0.995,
-          predictionHorizonMins: 15,
-          expectedMovePct: signal === 'BUY' ? 0.5 : -0.5,
-          indicatorValues: {
-            price: price,
-            spread: rate.spread,
-            timestamp: rate.timestamp,
-            rsi: Math.random() * 40 + 30, // RSI between 30-70
-            macd: Math.random() * 0.002 - 0.001
-          },
-          backtestStats: {
-            realized_pnl: Math.random() > 0.65 ? (Math.random() * 0.01 - 0.005) : 0,
-            unrealized_pnl: Math.random() * 0.002 - 0.001
-          }
-        };
-        
-        this.onSignalCallback?.(tradingSignal);
-        
-        // Also broadcast market update
-        const marketUpdate = {
-          symbol: pair,
-          price: price,
-          change: (Math.random() - 0.5) * 0.001,
-          changePercent: (Math.random() - 0.5) * 0.1,
-          timestamp: new Date().toISOString(),
-          volume: Math.random() * 1000000 + 500000
-        };
-        
-        this.onMarketUpdateCallback?.(marketUpdate);
-      }
-    }
-  }
-
   // Get connection status for API monitoring
-  getConnectionStatus(): any {
+  getConnectionStatus(): ProviderStatus {
     return {
       connected: this.isRunning,
       mode: 'live',
-      provider: this.finnhubApiKey ? 'Finnhub + ExchangeRate-API' : 'ExchangeRate-API',
-      rateLimit: {
-        current: this.requestCount,
-        max: this.exchangeRateApiKey ? 1000 : 24,
-        resetTime: this.exchangeRateApiKey ? '1 month' : '24 hours'
-      },
+      provider: this.name,
+      rateLimit: quotaManager.getRateLimit(this.id),
       uptime: this.isRunning ? Date.now() : 0,
       lastUpdate: new Date(this.lastRequestTime).toISOString(),
-      activePairs: this.subscribedPairs.length,
-      cachedRates: this.currentRates.size
+      activePairs: this.subscribedPairs.size,
+      errorCount: this.errorCount
     };
   }
 
   private async fetchLatestRates(): Promise<void> {
     try {
-      // Respect rate limiting
-      const now = Date.now();
-      if (now - this.lastRequestTime < this.rateLimitDelay) {
-        console.log('Rate limited, skipping request');
-        return;
-      }
+      // Throws once the request budget is spent
+      await quotaManager.acquire(this.id);
 
       // Use API key if available for higher limits
       const apiUrl = this.exchangeRateApiKey 
@@ -211,7 +134,6 @@ export class ForexService {
       
       const usdResponse = await fetch(apiUrl);
       this.lastRequestTime = Date.now();
-      this.requestCount++;
 
       if (!usdResponse.ok) {
         throw new Error(`HTTP ${usdResponse.status}: ${usdResponse.statusText}`);
@@ -226,18 +148,31 @@ export class ForexService {
       // Process the rate data
       this.processRateData(usdData);
 
-      // Broadcast market update
-      this.onMarketUpdateCallback?.({
-        timestamp: new Date().toISOString(),
-        rates: Array.from(this.currentRates.values()),
-        provider: 'ExchangeRate-API',
-        requestCount: this.requestCount,
-        lastUpdate: usdData.time_last_update_utc,
-        nextUpdate: usdData.time_next_update_utc
+      // Broadcast one market update per pair so downstream consumers see a uniform tick stream
+      this.currentRates.forEach(rate => {
+        const price = (rate.bid + rate.ask) / 2;
+        const changePercent = rate.change24h ?? 0;
+        
+        this.onMarketUpdateCallback?.({
+          symbol: rate.symbol,
+          price,
+          change: price * changePercent / 100,
+          changePercent,
+          timestamp: new Date(rate.timestamp).toISOString(),
+          bid: rate.bid,
+          ask: rate.ask,
+          synthetic: rate.synthetic
+        });
       });
 
     } catch (error) {
-      console.error('Error fetching latest rates:', error);
+      // An exhausted budget is not a provider fault; the feed just goes quiet until the reset
+      if (error instanceof QuotaExceededError) {
+        console.warn(error.message);
+      } else {
+        console.error('Error fetching latest rates:', error);
+        this.errorCount++;
+      }
       
       // If we have cached data, continue with that
       if (this.currentRates.size === 0) {
@@ -246,63 +181,56 @@ export class ForexService {
     }
   }
 
+  // Poll spacing spreads the remaining budget evenly until the quota window resets
+  private schedulePoll(): void {
+    if (!this.isRunning) return;
+
+    const delay = quotaManager.getPollInterval(this.id, this.minPollIntervalMs);
+    this.pollTimer = setTimeout(async () => {
+      try {
+        // Rates do not move while the market is closed, so the request budget is saved
+        if (marketCalendar.isOpen(Date.now())) {
+          await this.fetchLatestRates();
+        }
+      } catch (error) {
+        console.error('Error during periodic update:', error);
+      }
+      this.schedulePoll();
+    }, delay);
+  }
+
   private processRateData(usdData: ExchangeRateResponse): void {
     const timestamp = Date.now();
     const updatedRates = new Map<string, ForexRate>();
 
-    // Process USD-based pairs
+    // Rates are published against USD
     const usdRates = usdData?.rates;
     if (!usdRates) {
       console.error('No rates data received from API');
       return;
     }
     
-    for (const pair of this.subscribedPairs) {
-      const [base, quote] = pair.split('/');
-      
-      if (base === 'USD' && usdRates?.[quote]) {
-        const rate = usdRates[quote];
-        const spread = rate * 0.0002; // Approximate 2 pip spread
-        
-        updatedRates.set(pair, {
-          symbol: pair,
-          bid: rate - spread,
-          ask: rate + spread,
-          spread: spread * 2,
-          timestamp: timestamp,
-          change24h: this.calculateChange(pair, rate)
-        });
-      }
-      else if (quote === 'USD' && usdRates?.[base]) {
-        const rate = 1 / usdRates[base];
-        const spread = rate * 0.0002;
-        
-        updatedRates.set(pair, {
-          symbol: pair,
-          bid: rate - spread,
-          ask: rate + spread,
-          spread: spread * 2,
-          timestamp: timestamp,
-          change24h: this.calculateChange(pair, rate)
-        });
-      }
-      // Handle cross pairs (EUR/GBP)
-      else if (base === 'EUR' && quote === 'GBP' && usdRates?.EUR && usdRates?.GBP) {
-        const eurToUsd = 1 / usdRates.EUR;
-        const gbpToUsd = 1 / usdRates.GBP;
-        const rate = eurToUsd / gbpToUsd;
-        const spread = rate * 0.0003; // Slightly higher spread for cross pairs
-        
-        updatedRates.set(pair, {
-          symbol: pair,
-          bid: rate - spread,
-          ask: rate + spread,
-          spread: spread * 2,
-          timestamp: timestamp,
-          change24h: this.calculateChange(pair, rate)
-        });
+    // Crosses such as EUR/JPY are triangulated through the USD table
+    this.crossRates.clear();
+    this.crossRates.loadRateTable(usdData.base_code, usdRates, this.relativeSpread, timestamp);
+    
+    this.subscribedPairs.forEach(pair => {
+      const rate = this.crossRates.getRate(pair);
+      if (!rate) {
+        console.warn(`No rate available for ${pair}`);
+        return;
       }
-    }
+      
+      updatedRates.set(pair, {
+        symbol: pair,
+        bid: rate.bid,
+        ask: rate.ask,
+        spread: rate.spread,
+        timestamp: timestamp,
+        change24h: this.calculateChange(pair, rate.mid),
+        synthetic: rate.synthetic
+      });
+    });
 
     this.currentRates = updatedRates;
     console.log(`Updated ${updatedRates.size} forex rates from ExchangeRate-API`);
@@ -318,23 +246,24 @@ export class ForexService {
     return ((currentRate - midRate) / midRate) * 100;
   }
 
+  // Rates are polled for every pair at once, so new pairs appear with the next poll
   async subscribe(pairs: string[]): Promise<void> {
     console.log('Subscribed to pairs:', pairs);
-    // Update subscribed pairs list
-    this.subscribedPairs.push(...pairs.filter(p => !this.subscribedPairs.includes(p)));
+    pairs.forEach(pair => this.subscribedPairs.add(pair));
   }
 
   async unsubscribe(pairs: string[]): Promise<void> {
     console.log('Unsubscribed from pairs:', pairs);
-    // Remove from subscribed pairs
     pairs.forEach(pair => {
-      const index = this.subscribedPairs.indexOf(pair);
-      if (index > -1) {
-        this.subscribedPairs.splice(index, 1);
-      }
+      this.subscribedPairs.delete(pair);
+      this.currentRates.delete(pair);
     });
   }
 
+  getSubscriptions(): string[] {
+    return Array.from(this.subscribedPairs);
+  }
+
   getCurrentRate(symbol: string): ForexRate | null {
     return this.currentRates.get(symbol) || null;
   }
@@ -343,24 +272,15 @@ export class ForexService {
     return Array.from(this.currentRates.values());
   }
 
+  getQuotes(): Quote[] {
+    return this.getAllRates();
+  }
+
   isConnected(): boolean {
     return this.isRunning;
   }
 
-  getConnectionStatus() {
-    return {
-      connected: this.isRunning,
-      provider: 'ExchangeRate-API',
-      mode: 'live',
-      subscriptions: this.subscribedPairs,
-      ratesCount: this.currentRates.size,
-      requestCount: this.requestCount,
-      rateLimit: {
-        current: this.requestCount,
-        max: 24,
-        resetTime: '24 hours'
-      },
-      lastUpdate: this.lastRequestTime
-    };
+  now(): number {
+    return Date.now();
   }
 }
\ No newline at end of file
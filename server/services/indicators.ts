@@ -1,20 +1,142 @@
+import { CandlestickPatterns, PatternState, createPatternState, updatePatterns, noPatterns } from './candlestick-patterns.js';
+
 export interface IndicatorValue {
   timestamp: number;
   value: number;
 }
 
 export interface IndicatorResult {
+  price: number; // Close the values were calculated at
   rsi: number;
   macd: { macd: number; signal: number; histogram: number; };
   stochastic: { k: number; d: number; };
   ema: { fast: number; slow: number; };
-  adx: number;
+  adx: { adx: number; plusDI: number; minusDI: number; };
+  bollinger: BollingerValues;
+  atr: number;
+  cci: number;
+  williamsR: number;
+  ichimoku: IchimokuValues;
+  psar: PSARValues;
+  patterns: CandlestickPatterns; // Completed on this bar
+}
+
+export interface BollingerValues {
+  upper: number;
+  middle: number;
+  lower: number;
+  bandwidth: number; // (upper - lower) / middle
+  percentB: number; // Close position within the bands: 0 at the lower band, 1 at the upper
+}
+
+export type CloudPosition = 'above' | 'inside' | 'below';
+
+export interface IchimokuValues {
+  tenkan: number; // Conversion line
+  kijun: number; // Base line
+  senkouA: number; // Cloud at the current bar, projected displacement bars ago
+  senkouB: number;
+  cloud: CloudPosition; // Where the close sits relative to the cloud
+}
+
+export interface PSARValues {
+  sar: number;
+  trend: 'up' | 'down';
+}
+
+// Periods of every indicator in IndicatorResult; nested groups are replaced as a whole when overridden
+export interface IndicatorSettings {
+  rsiPeriod: number;
+  macd: { fast: number; slow: number; signal: number; };
+  stochastic: { k: number; d: number; };
+  ema: { fast: number; slow: number; };
+  adxPeriod: number;
+  bollinger: { period: number; stdDev: number; };
+  atrPeriod: number;
+  cciPeriod: number;
+  williamsRPeriod: number;
+  ichimoku: { conversion: number; base: number; spanB: number; displacement: number; };
+  psar: { step: number; max: number; };
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  rsiPeriod: 14,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  stochastic: { k: 14, d: 3 },
+  ema: { fast: 9, slow: 21 },
+  adxPeriod: 14,
+  bollinger: { period: 20, stdDev: 2 },
+  atrPeriod: 14,
+  cciPeriod: 20,
+  williamsRPeriod: 14,
+  ichimoku: { conversion: 9, base: 26, spanB: 52, displacement: 26 },
+  psar: { step: 0.02, max: 0.2 }
+};
+
+// Series are aligned with the input bars; entries before an indicator has enough data are NaN
+export interface MACDSeries {
+  macd: number[];
+  signal: number[];
+  histogram: number[];
+}
+
+export interface StochasticSeries {
+  k: number[];
+  d: number[];
+}
+
+export interface ADXSeries {
+  adx: number[];
+  plusDI: number[];
+  minusDI: number[];
+}
+
+export interface BollingerSeries {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+  bandwidth: number[];
+  percentB: number[];
+}
+
+export interface IchimokuSeries {
+  tenkan: number[];
+  kijun: number[];
+  senkouA: number[];
+  senkouB: number[];
+  cloud: CloudPosition[];
+}
+
+export interface PSARSeries {
+  sar: number[];
+  trend: ('up' | 'down' | null)[];
+}
+
+export interface IndicatorSeries {
+  rsi: number[];
+  macd: MACDSeries;
+  stochastic: StochasticSeries;
+  ema: { fast: number[]; slow: number[]; };
+  adx: ADXSeries;
+  bollinger: BollingerSeries;
+  atr: number[];
+  cci: number[];
+  williamsR: number[];
+  ichimoku: IchimokuSeries;
+  psar: PSARSeries;
+  patterns: CandlestickPatterns[];
 }
 
 export class TechnicalIndicators {
   
   static calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
+    return withDefault(last(this.rsiSeries(prices, period)), 50);
+  }
+  
+  // Wilder's RSI: averages are seeded with the simple mean of the first period changes
+  static rsiSeries(prices: number[], period: number = 14): number[] {
+    const series = new Array<number>(prices.length).fill(NaN);
+    if (prices.length < period + 1) return series;
     
     let gains = 0;
     let losses = 0;
@@ -31,6 +153,7 @@ export class TechnicalIndicators {
     
     let avgGain = gains / period;
     let avgLoss = losses / period;
+    series[period] = toRSI(avgGain, avgLoss);
     
     // Calculate RSI using Wilder's smoothing
     for (let i = period + 1; i < prices.length; i++) {
@@ -40,115 +163,1178 @@ export class TechnicalIndicators {
       
       avgGain = (avgGain * (period - 1) + gain) / period;
       avgLoss = (avgLoss * (period - 1) + loss) / period;
+      series[i] = toRSI(avgGain, avgLoss);
     }
     
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
+    return series;
   }
   
   static calculateMACD(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
-    if (prices.length < slowPeriod) {
+    const series = this.macdSeries(prices, fastPeriod, slowPeriod, signalPeriod);
+    const histogram = last(series.histogram);
+    
+    // The signal line needs slowPeriod + signalPeriod - 1 bars
+    if (Number.isNaN(histogram)) {
       return { macd: 0, signal: 0, histogram: 0 };
     }
     
-    const fastEMA = this.calculateEMA(prices, fastPeriod);
-    const slowEMA = this.calculateEMA(prices, slowPeriod);
-    const macdLine = fastEMA - slowEMA;
-    
-    // For signal line, we'd need MACD history, simplified here
-    const signal = macdLine * 0.9; // Simplified
-    const histogram = macdLine - signal;
+    return { macd: last(series.macd), signal: last(series.signal), histogram };
+  }
+  
+  // MACD line is the fast EMA minus the slow EMA; the signal line is an EMA of the MACD line
+  static macdSeries(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): MACDSeries {
+    const fastEMA = this.emaSeries(prices, fastPeriod);
+    const slowEMA = this.emaSeries(prices, slowPeriod);
+    const macd = prices.map((_, i) => fastEMA[i] - slowEMA[i]);
+    const signal = this.emaSeries(macd, signalPeriod);
+    const histogram = macd.map((value, i) => value - signal[i]);
     
-    return { macd: macdLine, signal, histogram };
+    return { macd, signal, histogram };
   }
   
   static calculateStochastic(highs: number[], lows: number[], closes: number[], kPeriod: number = 14, dPeriod: number = 3) {
-    if (closes.length < kPeriod) {
-      return { k: 50, d: 50 };
-    }
+    const series = this.stochasticSeries(highs, lows, closes, kPeriod, dPeriod);
+    const k = withDefault(last(series.k), 50);
     
-    const recentHighs = highs.slice(-kPeriod);
-    const recentLows = lows.slice(-kPeriod);
-    const currentClose = closes[closes.length - 1];
-    
-    const highestHigh = Math.max(...recentHighs);
-    const lowestLow = Math.min(...recentLows);
-    
-    const k = ((currentClose - lowestLow) / (highestHigh - lowestLow)) * 100;
-    
-    // Simplified D calculation
-    const d = k * 0.95; // Simplified
+    return { k, d: withDefault(last(series.d), k) };
+  }
+  
+  // %K locates the close within the kPeriod high-low range; %D is its dPeriod simple average
+  static stochasticSeries(highs: number[], lows: number[], closes: number[], kPeriod: number = 14, dPeriod: number = 3): StochasticSeries {
+    const k = closes.map((close, i) => {
+      if (i < kPeriod - 1) return NaN;
+      
+      const highestHigh = Math.max(...highs.slice(i - kPeriod + 1, i + 1));
+      const lowestLow = Math.min(...lows.slice(i - kPeriod + 1, i + 1));
+      
+      // A flat range has no position within it
+      if (highestHigh === lowestLow) return 50;
+      return ((close - lowestLow) / (highestHigh - lowestLow)) * 100;
+    });
     
-    return { k: k || 50, d: d || 50 };
+    return { k, d: this.smaSeries(k, dPeriod) };
   }
   
   static calculateEMA(prices: number[], period: number): number {
     if (prices.length === 0) return 0;
-    if (prices.length === 1) return prices[0];
-    
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
     
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] - ema) * multiplier + ema;
+    // Too short to seed the EMA: fall back to the plain average
+    if (prices.length < period) {
+      return prices.reduce((sum, price) => sum + price, 0) / prices.length;
     }
     
-    return ema;
+    return last(this.emaSeries(prices, period));
   }
   
-  static calculateADX(highs: number[], lows: number[], closes: number[], period: number = 14): number {
-    if (closes.length < period + 1) return 25;
+  // Seeded with the simple average of the first period values; NaN inputs (an unsettled source series) are skipped
+  static emaSeries(values: number[], period: number): number[] {
+    const series = new Array<number>(values.length).fill(NaN);
+    const start = values.findIndex(value => !Number.isNaN(value));
+    if (start === -1 || values.length - start < period) return series;
     
-    // Simplified ADX calculation
-    let totalTrueRange = 0;
-    let totalDMPlus = 0;
-    let totalDMMinus = 0;
+    const multiplier = 2 / (period + 1);
+    let ema = values.slice(start, start + period).reduce((sum, value) => sum + value, 0) / period;
+    series[start + period - 1] = ema;
     
-    for (let i = 1; i < Math.min(closes.length, period + 1); i++) {
-      const highDiff = highs[i] - highs[i - 1];
-      const lowDiff = lows[i - 1] - lows[i];
-      
-      const dmPlus = highDiff > lowDiff && highDiff > 0 ? highDiff : 0;
-      const dmMinus = lowDiff > highDiff && lowDiff > 0 ? lowDiff : 0;
-      
-      const trueRange = Math.max(
-        highs[i] - lows[i],
-        Math.abs(highs[i] - closes[i - 1]),
-        Math.abs(lows[i] - closes[i - 1])
-      );
-      
-      totalTrueRange += trueRange;
-      totalDMPlus += dmPlus;
-      totalDMMinus += dmMinus;
+    for (let i = start + period; i < values.length; i++) {
+      ema = (values[i] - ema) * multiplier + ema;
+      series[i] = ema;
     }
     
-    if (totalTrueRange === 0) return 25;
-    
-    const diPlus = (totalDMPlus / totalTrueRange) * 100;
-    const diMinus = (totalDMMinus / totalTrueRange) * 100;
+    return series;
+  }
+  
+  // NaN until a full window of valid values is available
+  static smaSeries(values: number[], period: number): number[] {
+    return values.map((_, i) => {
+      if (i < period - 1) return NaN;
+      const window = values.slice(i - period + 1, i + 1);
+      return window.reduce((sum, value) => sum + value, 0) / period;
+    });
+  }
+  
+  static calculateADX(highs: number[], lows: number[], closes: number[], period: number = 14) {
+    const series = this.adxSeries(highs, lows, closes, period);
+    return {
+      adx: withDefault(last(series.adx), 25),
+      plusDI: withDefault(last(series.plusDI), 0),
+      minusDI: withDefault(last(series.minusDI), 0)
+    };
+  }
+  
+  /**
+   * Wilder's ADX: true range and directional movement are summed over the
+   * first period bars and Wilder-smoothed after that, giving +DI and -DI from
+   * bar `period`; ADX starts as the mean of the first period DX values (bar
+   * 2 * period - 1) and is Wilder-smoothed from there.
+   */
+  static adxSeries(highs: number[], lows: number[], closes: number[], period: number = 14): ADXSeries {
+    const series: ADXSeries = {
+      adx: new Array<number>(closes.length).fill(NaN),
+      plusDI: new Array<number>(closes.length).fill(NaN),
+      minusDI: new Array<number>(closes.length).fill(NaN)
+    };
+    const state = createADXState();
     
-    if (diPlus + diMinus === 0) return 25;
+    for (let i = 0; i < closes.length; i++) {
+      const values = updateADX(state, { high: highs[i], low: lows[i], close: closes[i] }, period);
+      series.adx[i] = values.adx;
+      series.plusDI[i] = values.plusDI;
+      series.minusDI[i] = values.minusDI;
+    }
     
-    const dx = Math.abs(diPlus - diMinus) / (diPlus + diMinus) * 100;
-    return dx;
+    return series;
   }
   
-  static calculateAllIndicators(
+  static calculateBollingerBands(closes: number[], period: number = 20, stdDev: number = 2): BollingerValues {
+    const price = withDefault(last(closes), 0);
+    return bollingerWithDefaults(lastOf(this.bollingerSeries(closes, period, stdDev)), price);
+  }
+  
+  // SMA middle band with bands stdDev population standard deviations away
+  static bollingerSeries(closes: number[], period: number = 20, stdDev: number = 2): BollingerSeries {
+    const series: BollingerSeries = { upper: [], middle: [], lower: [], bandwidth: [], percentB: [] };
+    const state = createWindowState();
+    closes.forEach(close => {
+      const values = updateBollinger(state, close, period, stdDev);
+      series.upper.push(values.upper);
+      series.middle.push(values.middle);
+      series.lower.push(values.lower);
+      series.bandwidth.push(values.bandwidth);
+      series.percentB.push(values.percentB);
+    });
+    return series;
+  }
+  
+  static calculateATR(highs: number[], lows: number[], closes: number[], period: number = 14): number {
+    return withDefault(last(this.atrSeries(highs, lows, closes, period)), 0);
+  }
+  
+  // Wilder's average true range, seeded with the mean of the first period true ranges
+  static atrSeries(highs: number[], lows: number[], closes: number[], period: number = 14): number[] {
+    const state = createATRState();
+    return closes.map((close, i) => updateATR(state, { high: highs[i], low: lows[i], close }, period));
+  }
+  
+  static calculateCCI(highs: number[], lows: number[], closes: number[], period: number = 20): number {
+    return withDefault(last(this.cciSeries(highs, lows, closes, period)), 0);
+  }
+  
+  // Typical price against its SMA, scaled by 0.015 times the mean absolute deviation
+  static cciSeries(highs: number[], lows: number[], closes: number[], period: number = 20): number[] {
+    const state = createWindowState();
+    return closes.map((close, i) => updateCCI(state, { high: highs[i], low: lows[i], close }, period));
+  }
+  
+  static calculateWilliamsR(highs: number[], lows: number[], closes: number[], period: number = 14): number {
+    return withDefault(last(this.williamsRSeries(highs, lows, closes, period)), -50);
+  }
+  
+  // 0 at the period high, -100 at the period low
+  static williamsRSeries(highs: number[], lows: number[], closes: number[], period: number = 14): number[] {
+    const state = createRangeState();
+    return closes.map((close, i) => updateWilliamsR(state, { high: highs[i], low: lows[i], close }, period));
+  }
+  
+  static calculateIchimoku(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    settings: IndicatorSettings['ichimoku'] = DEFAULT_INDICATOR_SETTINGS.ichimoku
+  ): IchimokuValues {
+    const price = withDefault(last(closes), 0);
+    return ichimokuWithDefaults(lastOf(this.ichimokuSeries(highs, lows, closes, settings)), price);
+  }
+  
+  static ichimokuSeries(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    settings: IndicatorSettings['ichimoku'] = DEFAULT_INDICATOR_SETTINGS.ichimoku
+  ): IchimokuSeries {
+    const series: IchimokuSeries = { tenkan: [], kijun: [], senkouA: [], senkouB: [], cloud: [] };
+    const state = createIchimokuState();
+    closes.forEach((close, i) => {
+      const values = updateIchimoku(state, { high: highs[i], low: lows[i], close }, settings);
+      series.tenkan.push(values.tenkan);
+      series.kijun.push(values.kijun);
+      series.senkouA.push(values.senkouA);
+      series.senkouB.push(values.senkouB);
+      series.cloud.push(values.cloud);
+    });
+    return series;
+  }
+  
+  static calculateParabolicSAR(highs: number[], lows: number[], closes: number[], step: number = 0.02, max: number = 0.2): PSARValues {
+    const series = this.psarSeries(highs, lows, closes, step, max);
+    const index = closes.length - 1;
+    return psarWithDefaults({ sar: series.sar[index] ?? NaN, trend: series.trend[index] ?? null }, withDefault(last(closes), 0));
+  }
+  
+  // Wilder's Parabolic SAR; the first bar only seeds the trend, so values start at the second
+  static psarSeries(highs: number[], lows: number[], closes: number[], step: number = 0.02, max: number = 0.2): PSARSeries {
+    const series: PSARSeries = { sar: [], trend: [] };
+    const state = createPSARState();
+    closes.forEach((close, i) => {
+      const values = updatePSAR(state, { high: highs[i], low: lows[i], close }, step, max);
+      series.sar.push(values.sar);
+      series.trend.push(values.trend);
+    });
+    return series;
+  }
+  
+  // Without opens each bar opens at the previous close, as tick-built FX bars do
+  static patternSeries(highs: number[], lows: number[], closes: number[], opens?: number[]): CandlestickPatterns[] {
+    const state = createPatternState();
+    return closes.map((close, i) => updatePatterns(state, { open: opens?.[i], high: highs[i], low: lows[i], close }));
+  }
+  
+  static calculateIndicatorSeries(
     prices: number[],
     highs: number[],
     lows: number[],
-    closes: number[]
-  ): IndicatorResult {
+    closes: number[],
+    settings: Partial<IndicatorSettings> = {},
+    opens?: number[]
+  ): IndicatorSeries {
+    const config = resolveSettings(settings);
     return {
-      rsi: this.calculateRSI(prices),
-      macd: this.calculateMACD(prices),
-      stochastic: this.calculateStochastic(highs, lows, closes),
+      rsi: this.rsiSeries(prices, config.rsiPeriod),
+      macd: this.macdSeries(prices, config.macd.fast, config.macd.slow, config.macd.signal),
+      stochastic: this.stochasticSeries(highs, lows, closes, config.stochastic.k, config.stochastic.d),
       ema: {
-        fast: this.calculateEMA(prices, 9),
-        slow: this.calculateEMA(prices, 21)
+        fast: this.emaSeries(prices, config.ema.fast),
+        slow: this.emaSeries(prices, config.ema.slow)
+      },
+      adx: this.adxSeries(highs, lows, closes, config.adxPeriod),
+      bollinger: this.bollingerSeries(closes, config.bollinger.period, config.bollinger.stdDev),
+      atr: this.atrSeries(highs, lows, closes, config.atrPeriod),
+      cci: this.cciSeries(highs, lows, closes, config.cciPeriod),
+      williamsR: this.williamsRSeries(highs, lows, closes, config.williamsRPeriod),
+      ichimoku: this.ichimokuSeries(highs, lows, closes, config.ichimoku),
+      psar: this.psarSeries(highs, lows, closes, config.psar.step, config.psar.max),
+      patterns: this.patternSeries(highs, lows, closes, opens)
+    };
+  }
+  
+  // Values at one bar, with the same neutral defaults as the single-value functions during warm-up
+  static getIndicatorsAt(series: IndicatorSeries, index: number, price: number): IndicatorResult {
+    return toIndicatorResult({
+      rsi: withDefault(series.rsi[index], NaN),
+      macd: withDefault(series.macd.macd[index], NaN),
+      signal: withDefault(series.macd.signal[index], NaN),
+      histogram: withDefault(series.macd.histogram[index], NaN),
+      k: withDefault(series.stochastic.k[index], NaN),
+      d: withDefault(series.stochastic.d[index], NaN),
+      emaFast: withDefault(series.ema.fast[index], NaN),
+      emaSlow: withDefault(series.ema.slow[index], NaN),
+      adx: withDefault(series.adx.adx[index], NaN),
+      plusDI: withDefault(series.adx.plusDI[index], NaN),
+      minusDI: withDefault(series.adx.minusDI[index], NaN),
+      bollinger: {
+        upper: withDefault(series.bollinger.upper[index], NaN),
+        middle: withDefault(series.bollinger.middle[index], NaN),
+        lower: withDefault(series.bollinger.lower[index], NaN),
+        bandwidth: withDefault(series.bollinger.bandwidth[index], NaN),
+        percentB: withDefault(series.bollinger.percentB[index], NaN)
       },
-      adx: this.calculateADX(highs, lows, closes)
+      atr: withDefault(series.atr[index], NaN),
+      cci: withDefault(series.cci[index], NaN),
+      williamsR: withDefault(series.williamsR[index], NaN),
+      ichimoku: {
+        tenkan: withDefault(series.ichimoku.tenkan[index], NaN),
+        kijun: withDefault(series.ichimoku.kijun[index], NaN),
+        senkouA: withDefault(series.ichimoku.senkouA[index], NaN),
+        senkouB: withDefault(series.ichimoku.senkouB[index], NaN),
+        cloud: series.ichimoku.cloud[index] ?? 'inside'
+      },
+      psar: { sar: series.psar.sar[index] ?? NaN, trend: series.psar.trend[index] ?? null },
+      patterns: series.patterns[index] ?? noPatterns()
+    }, price);
+  }
+  
+  static calculateAllIndicators(
+    prices: number[],
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    settings: Partial<IndicatorSettings> = {},
+    opens?: number[]
+  ): IndicatorResult {
+    const series = this.calculateIndicatorSeries(prices, highs, lows, closes, settings, opens);
+    return this.getIndicatorsAt(series, prices.length - 1, withDefault(last(prices), 0));
+  }
+}
+
+export interface OHLCBar {
+  open?: number; // Only candlestick patterns use it; defaults to the previous close
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Streaming counterparts of the batch functions above. Each update costs the
+ * same however long the history is, and performs the same arithmetic in the
+ * same order as the batch version, so values are identical bar for bar.
+ * Snapshots are plain JSON-safe objects (NaN is stored as null).
+ */
+export interface StreamingCalculator<TState> {
+  snapshot(): TState;
+  restore(state: TState): void;
+}
+
+export interface EMAState {
+  count: number;
+  seedSum: number;
+  value: number | null;
+}
+
+export class StreamingEMA implements StreamingCalculator<EMAState> {
+  private count = 0; // Valid inputs seen, capped at period
+  private seedSum = 0;
+  private value = NaN;
+
+  constructor(readonly period: number) {}
+
+  // Leading NaN inputs are skipped, as in emaSeries
+  update(input: number): number {
+    if (this.count === 0 && Number.isNaN(input)) return NaN;
+
+    if (this.count < this.period) {
+      this.count++;
+      this.seedSum += input;
+      if (this.count === this.period) {
+        this.value = this.seedSum / this.period;
+      }
+      return this.value;
+    }
+
+    const multiplier = 2 / (this.period + 1);
+    this.value = (input - this.value) * multiplier + this.value;
+    return this.value;
+  }
+
+  snapshot(): EMAState {
+    return { count: this.count, seedSum: this.seedSum, value: toNullable(this.value) };
+  }
+
+  restore(state: EMAState): void {
+    this.count = state.count;
+    this.seedSum = state.seedSum;
+    this.value = fromNullable(state.value);
+  }
+}
+
+export interface SMAState {
+  window: (number | null)[];
+}
+
+export class StreamingSMA implements StreamingCalculator<SMAState> {
+  private window: number[] = [];
+
+  constructor(readonly period: number) {}
+
+  update(input: number): number {
+    this.window.push(input);
+    if (this.window.length > this.period) this.window.shift();
+    if (this.window.length < this.period) return NaN;
+    return this.window.reduce((sum, value) => sum + value, 0) / this.period;
+  }
+
+  snapshot(): SMAState {
+    return { window: this.window.map(toNullable) };
+  }
+
+  restore(state: SMAState): void {
+    this.window = state.window.map(fromNullable);
+  }
+}
+
+export interface RSIState {
+  previous: number | null;
+  changes: number; // Price changes seen, capped at period
+  gains: number;
+  losses: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+export class StreamingRSI implements StreamingCalculator<RSIState> {
+  private previous: number | null = null;
+  private changes = 0;
+  private gains = 0;
+  private losses = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+
+  constructor(readonly period: number = 14) {}
+
+  update(price: number): number {
+    const previous = this.previous;
+    this.previous = price;
+    if (previous === null) return NaN;
+
+    const change = price - previous;
+    if (this.changes < this.period) {
+      this.changes++;
+      if (change > 0) {
+        this.gains += change;
+      } else {
+        this.losses += Math.abs(change);
+      }
+      if (this.changes < this.period) return NaN;
+
+      this.avgGain = this.gains / this.period;
+      this.avgLoss = this.losses / this.period;
+      return toRSI(this.avgGain, this.avgLoss);
+    }
+
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? Math.abs(change) : 0;
+    this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+    this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    return toRSI(this.avgGain, this.avgLoss);
+  }
+
+  snapshot(): RSIState {
+    return {
+      previous: this.previous,
+      changes: this.changes,
+      gains: this.gains,
+      losses: this.losses,
+      avgGain: this.avgGain,
+      avgLoss: this.avgLoss
+    };
+  }
+
+  restore(state: RSIState): void {
+    this.previous = state.previous;
+    this.changes = state.changes;
+    this.gains = state.gains;
+    this.losses = state.losses;
+    this.avgGain = state.avgGain;
+    this.avgLoss = state.avgLoss;
+  }
+}
+
+export interface MACDState {
+  fast: EMAState;
+  slow: EMAState;
+  signal: EMAState;
+}
+
+export class StreamingMACD implements StreamingCalculator<MACDState> {
+  private fast: StreamingEMA;
+  private slow: StreamingEMA;
+  private signal: StreamingEMA;
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    this.fast = new StreamingEMA(fastPeriod);
+    this.slow = new StreamingEMA(slowPeriod);
+    this.signal = new StreamingEMA(signalPeriod);
+  }
+
+  update(price: number): { macd: number; signal: number; histogram: number } {
+    const macd = this.fast.update(price) - this.slow.update(price);
+    const signal = this.signal.update(macd);
+    return { macd, signal, histogram: macd - signal };
+  }
+
+  snapshot(): MACDState {
+    return { fast: this.fast.snapshot(), slow: this.slow.snapshot(), signal: this.signal.snapshot() };
+  }
+
+  restore(state: MACDState): void {
+    this.fast.restore(state.fast);
+    this.slow.restore(state.slow);
+    this.signal.restore(state.signal);
+  }
+}
+
+export interface StochasticState {
+  highs: number[];
+  lows: number[];
+  d: SMAState;
+}
+
+export class StreamingStochastic implements StreamingCalculator<StochasticState> {
+  private highs: number[] = [];
+  private lows: number[] = [];
+  private d: StreamingSMA;
+
+  constructor(readonly kPeriod: number = 14, dPeriod: number = 3) {
+    this.d = new StreamingSMA(dPeriod);
+  }
+
+  update(bar: OHLCBar): { k: number; d: number } {
+    this.highs.push(bar.high);
+    this.lows.push(bar.low);
+    if (this.highs.length > this.kPeriod) {
+      this.highs.shift();
+      this.lows.shift();
+    }
+
+    let k = NaN;
+    if (this.highs.length === this.kPeriod) {
+      const highestHigh = Math.max(...this.highs);
+      const lowestLow = Math.min(...this.lows);
+      k = highestHigh === lowestLow ? 50 : ((bar.close - lowestLow) / (highestHigh - lowestLow)) * 100;
+    }
+
+    return { k, d: this.d.update(k) };
+  }
+
+  snapshot(): StochasticState {
+    return { highs: this.highs.slice(), lows: this.lows.slice(), d: this.d.snapshot() };
+  }
+
+  restore(state: StochasticState): void {
+    this.highs = state.highs.slice();
+    this.lows = state.lows.slice();
+    this.d.restore(state.d);
+  }
+}
+
+export interface ADXState {
+  previous: OHLCBar | null;
+  moves: number; // Bars after the first, counted until ADX is seeded
+  smoothedTR: number;
+  smoothedPlusDM: number;
+  smoothedMinusDM: number;
+  dxSum: number;
+  adx: number | null;
+}
+
+export class StreamingADX implements StreamingCalculator<ADXState> {
+  private state = createADXState();
+
+  constructor(readonly period: number = 14) {}
+
+  update(bar: OHLCBar): { adx: number; plusDI: number; minusDI: number } {
+    return updateADX(this.state, bar, this.period);
+  }
+
+  snapshot(): ADXState {
+    return { ...this.state, previous: this.state.previous ? { ...this.state.previous } : null };
+  }
+
+  restore(state: ADXState): void {
+    this.state = { ...state, previous: state.previous ? { ...state.previous } : null };
+  }
+}
+
+export interface WindowState {
+  values: number[];
+}
+
+export class StreamingBollinger implements StreamingCalculator<WindowState> {
+  private state = createWindowState();
+
+  constructor(readonly period: number = 20, readonly stdDev: number = 2) {}
+
+  update(close: number): BollingerValues {
+    return updateBollinger(this.state, close, this.period, this.stdDev);
+  }
+
+  snapshot(): WindowState {
+    return structuredClone(this.state);
+  }
+
+  restore(state: WindowState): void {
+    this.state = structuredClone(state);
+  }
+}
+
+export interface ATRState {
+  previousClose: number | null;
+  count: number; // True ranges summed while seeding
+  sum: number;
+  atr: number | null;
+}
+
+export class StreamingATR implements StreamingCalculator<ATRState> {
+  private state = createATRState();
+
+  constructor(readonly period: number = 14) {}
+
+  update(bar: OHLCBar): number {
+    return updateATR(this.state, bar, this.period);
+  }
+
+  snapshot(): ATRState {
+    return structuredClone(this.state);
+  }
+
+  restore(state: ATRState): void {
+    this.state = structuredClone(state);
+  }
+}
+
+export class StreamingCCI implements StreamingCalculator<WindowState> {
+  private state = createWindowState();
+
+  constructor(readonly period: number = 20) {}
+
+  update(bar: OHLCBar): number {
+    return updateCCI(this.state, bar, this.period);
+  }
+
+  snapshot(): WindowState {
+    return structuredClone(this.state);
+  }
+
+  restore(state: WindowState): void {
+    this.state = structuredClone(state);
+  }
+}
+
+export interface RangeState {
+  highs: number[];
+  lows: number[];
+}
+
+export class StreamingWilliamsR implements StreamingCalculator<RangeState> {
+  private state = createRangeState();
+
+  constructor(readonly period: number = 14) {}
+
+  update(bar: OHLCBar): number {
+    return updateWilliamsR(this.state, bar, this.period);
+  }
+
+  snapshot(): RangeState {
+    return structuredClone(this.state);
+  }
+
+  restore(state: RangeState): void {
+    this.state = structuredClone(state);
+  }
+}
+
+export interface IchimokuState extends RangeState {
+  // Spans computed on recent bars, waiting to be plotted displacement bars ahead
+  projected: { senkouA: number | null; senkouB: number | null; }[];
+}
+
+export class StreamingIchimoku implements StreamingCalculator<IchimokuState> {
+  private state = createIchimokuState();
+
+  constructor(readonly settings: IndicatorSettings['ichimoku'] = DEFAULT_INDICATOR_SETTINGS.ichimoku) {}
+
+  update(bar: OHLCBar): IchimokuValues {
+    return updateIchimoku(this.state, bar, this.settings);
+  }
+
+  snapshot(): IchimokuState {
+    return structuredClone(this.state);
+  }
+
+  restore(state: IchimokuState): void {
+    this.state = structuredClone(state);
+  }
+}
+
+export interface PSARState {
+  previous: OHLCBar | null;
+  beforePrevious: OHLCBar | null;
+  trend: 'up' | 'down' | null;
+  sar: number;
+  extremePoint: number;
+  accelerationFactor: number;
+}
+
+export class StreamingParabolicSAR implements StreamingCalculator<PSARState> {
+  private state = createPSARState();
+
+  constructor(readonly step: number = 0.02, readonly max: number = 0.2) {}
+
+  update(bar: OHLCBar): { sar: number; trend: 'up' | 'down' | null } {
+    return updatePSAR(this.state, bar, this.step, this.max);
+  }
+
+  snapshot(): PSARState {
+    return structuredClone(this.state);
+  }
+
+  restore(state: PSARState): void {
+    this.state = structuredClone(state);
+  }
+}
+
+export class StreamingPatterns implements StreamingCalculator<PatternState> {
+  private state = createPatternState();
+
+  update(bar: OHLCBar): CandlestickPatterns {
+    return updatePatterns(this.state, bar);
+  }
+
+  snapshot(): PatternState {
+    return structuredClone(this.state);
+  }
+
+  restore(state: PatternState): void {
+    this.state = structuredClone(state);
+  }
+}
+
+export interface IndicatorSnapshot {
+  bars: number;
+  rsi: RSIState;
+  macd: MACDState;
+  stochastic: StochasticState;
+  emaFast: EMAState;
+  emaSlow: EMAState;
+  adx: ADXState;
+  bollinger: WindowState;
+  atr: ATRState;
+  cci: WindowState;
+  williamsR: RangeState;
+  ichimoku: IchimokuState;
+  psar: PSARState;
+  patterns: PatternState;
+}
+
+// Every indicator in IndicatorResult, updated one bar at a time; matches calculateIndicatorSeries
+export class StreamingIndicators implements StreamingCalculator<IndicatorSnapshot> {
+  private bars = 0;
+  private rsi: StreamingRSI;
+  private macd: StreamingMACD;
+  private stochastic: StreamingStochastic;
+  private emaFast: StreamingEMA;
+  private emaSlow: StreamingEMA;
+  private adx: StreamingADX;
+  private bollinger: StreamingBollinger;
+  private atr: StreamingATR;
+  private cci: StreamingCCI;
+  private williamsR: StreamingWilliamsR;
+  private ichimoku: StreamingIchimoku;
+  private psar: StreamingParabolicSAR;
+  private patterns = new StreamingPatterns();
+
+  constructor(settings: Partial<IndicatorSettings> = {}) {
+    const config = resolveSettings(settings);
+    this.rsi = new StreamingRSI(config.rsiPeriod);
+    this.macd = new StreamingMACD(config.macd.fast, config.macd.slow, config.macd.signal);
+    this.stochastic = new StreamingStochastic(config.stochastic.k, config.stochastic.d);
+    this.emaFast = new StreamingEMA(config.ema.fast);
+    this.emaSlow = new StreamingEMA(config.ema.slow);
+    this.adx = new StreamingADX(config.adxPeriod);
+    this.bollinger = new StreamingBollinger(config.bollinger.period, config.bollinger.stdDev);
+    this.atr = new StreamingATR(config.atrPeriod);
+    this.cci = new StreamingCCI(config.cciPeriod);
+    this.williamsR = new StreamingWilliamsR(config.williamsRPeriod);
+    this.ichimoku = new StreamingIchimoku(config.ichimoku);
+    this.psar = new StreamingParabolicSAR(config.psar.step, config.psar.max);
+  }
+
+  update(bar: OHLCBar): IndicatorResult {
+    this.bars++;
+    const macd = this.macd.update(bar.close);
+    const stochastic = this.stochastic.update(bar);
+    const adx = this.adx.update(bar);
+
+    return toIndicatorResult({
+      rsi: this.rsi.update(bar.close),
+      macd: macd.macd,
+      signal: macd.signal,
+      histogram: macd.histogram,
+      k: stochastic.k,
+      d: stochastic.d,
+      emaFast: this.emaFast.update(bar.close),
+      emaSlow: this.emaSlow.update(bar.close),
+      adx: adx.adx,
+      plusDI: adx.plusDI,
+      minusDI: adx.minusDI,
+      bollinger: this.bollinger.update(bar.close),
+      atr: this.atr.update(bar),
+      cci: this.cci.update(bar),
+      williamsR: this.williamsR.update(bar),
+      ichimoku: this.ichimoku.update(bar),
+      psar: this.psar.update(bar),
+      patterns: this.patterns.update(bar)
+    }, bar.close);
+  }
+
+  getBarCount(): number {
+    return this.bars;
+  }
+
+  snapshot(): IndicatorSnapshot {
+    return {
+      bars: this.bars,
+      rsi: this.rsi.snapshot(),
+      macd: this.macd.snapshot(),
+      stochastic: this.stochastic.snapshot(),
+      emaFast: this.emaFast.snapshot(),
+      emaSlow: this.emaSlow.snapshot(),
+      adx: this.adx.snapshot(),
+      bollinger: this.bollinger.snapshot(),
+      atr: this.atr.snapshot(),
+      cci: this.cci.snapshot(),
+      williamsR: this.williamsR.snapshot(),
+      ichimoku: this.ichimoku.snapshot(),
+      psar: this.psar.snapshot(),
+      patterns: this.patterns.snapshot()
     };
   }
+
+  restore(state: IndicatorSnapshot): void {
+    this.bars = state.bars;
+    this.rsi.restore(state.rsi);
+    this.macd.restore(state.macd);
+    this.stochastic.restore(state.stochastic);
+    this.emaFast.restore(state.emaFast);
+    this.emaSlow.restore(state.emaSlow);
+    this.adx.restore(state.adx);
+    this.bollinger.restore(state.bollinger);
+    this.atr.restore(state.atr);
+    this.cci.restore(state.cci);
+    this.williamsR.restore(state.williamsR);
+    this.ichimoku.restore(state.ichimoku);
+    this.psar.restore(state.psar);
+    this.patterns.restore(state.patterns);
+  }
+}
+
+function createADXState(): ADXState {
+  return {
+    previous: null,
+    moves: 0,
+    smoothedTR: 0,
+    smoothedPlusDM: 0,
+    smoothedMinusDM: 0,
+    dxSum: 0,
+    adx: null
+  };
+}
+
+// One step of Wilder's ADX, shared by adxSeries and StreamingADX so both give identical values
+function updateADX(state: ADXState, bar: OHLCBar, period: number): { adx: number; plusDI: number; minusDI: number } {
+  const previous = state.previous;
+  state.previous = { high: bar.high, low: bar.low, close: bar.close };
+  if (!previous) return { adx: NaN, plusDI: NaN, minusDI: NaN };
+
+  const highDiff = bar.high - previous.high;
+  const lowDiff = previous.low - bar.low;
+  const dmPlus = highDiff > lowDiff && highDiff > 0 ? highDiff : 0;
+  const dmMinus = lowDiff > highDiff && lowDiff > 0 ? lowDiff : 0;
+  const trueRange = Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previous.close),
+    Math.abs(bar.low - previous.close)
+  );
+
+  if (state.moves < 2 * period - 1) state.moves++;
+
+  if (state.moves <= period) {
+    state.smoothedTR += trueRange;
+    state.smoothedPlusDM += dmPlus;
+    state.smoothedMinusDM += dmMinus;
+    if (state.moves < period) return { adx: NaN, plusDI: NaN, minusDI: NaN };
+  } else {
+    state.smoothedTR = state.smoothedTR - state.smoothedTR / period + trueRange;
+    state.smoothedPlusDM = state.smoothedPlusDM - state.smoothedPlusDM / period + dmPlus;
+    state.smoothedMinusDM = state.smoothedMinusDM - state.smoothedMinusDM / period + dmMinus;
+  }
+
+  // No range at all means no directional movement either
+  const plusDI = state.smoothedTR === 0 ? 0 : (state.smoothedPlusDM / state.smoothedTR) * 100;
+  const minusDI = state.smoothedTR === 0 ? 0 : (state.smoothedMinusDM / state.smoothedTR) * 100;
+  const dx = plusDI + minusDI === 0 ? 0 : Math.abs(plusDI - minusDI) / (plusDI + minusDI) * 100;
+
+  if (state.adx === null) {
+    state.dxSum += dx;
+    if (state.moves < 2 * period - 1) return { adx: NaN, plusDI, minusDI };
+    state.adx = state.dxSum / period;
+  } else {
+    state.adx = (state.adx * (period - 1) + dx) / period;
+  }
+
+  return { adx: state.adx, plusDI, minusDI };
+}
+
+function createWindowState(): WindowState {
+  return { values: [] };
+}
+
+function createRangeState(): RangeState {
+  return { highs: [], lows: [] };
+}
+
+function createATRState(): ATRState {
+  return { previousClose: null, count: 0, sum: 0, atr: null };
+}
+
+function createIchimokuState(): IchimokuState {
+  return { highs: [], lows: [], projected: [] };
+}
+
+function createPSARState(): PSARState {
+  return {
+    previous: null,
+    beforePrevious: null,
+    trend: null,
+    sar: 0,
+    extremePoint: 0,
+    accelerationFactor: 0
+  };
+}
+
+// Keep the most recent size values
+function pushWindow(values: number[], value: number, size: number): void {
+  values.push(value);
+  if (values.length > size) values.shift();
+}
+
+function updateBollinger(state: WindowState, close: number, period: number, stdDev: number): BollingerValues {
+  pushWindow(state.values, close, period);
+  if (state.values.length < period) {
+    return { upper: NaN, middle: NaN, lower: NaN, bandwidth: NaN, percentB: NaN };
+  }
+
+  const middle = state.values.reduce((sum, value) => sum + value, 0) / period;
+  const deviation = Math.sqrt(state.values.reduce((sum, value) => sum + (value - middle) ** 2, 0) / period);
+  const upper = middle + stdDev * deviation;
+  const lower = middle - stdDev * deviation;
+
+  return {
+    upper,
+    middle,
+    lower,
+    bandwidth: middle === 0 ? 0 : (upper - lower) / middle,
+    percentB: upper === lower ? 0.5 : (close - lower) / (upper - lower)
+  };
+}
+
+function updateATR(state: ATRState, bar: OHLCBar, period: number): number {
+  const previousClose = state.previousClose;
+  state.previousClose = bar.close;
+  if (previousClose === null) return NaN;
+
+  const trueRange = Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previousClose),
+    Math.abs(bar.low - previousClose)
+  );
+
+  if (state.atr === null) {
+    state.count++;
+    state.sum += trueRange;
+    if (state.count < period) return NaN;
+    state.atr = state.sum / period;
+    return state.atr;
+  }
+
+  state.atr = (state.atr * (period - 1) + trueRange) / period;
+  return state.atr;
+}
+
+function updateCCI(state: WindowState, bar: OHLCBar, period: number): number {
+  const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+  pushWindow(state.values, typicalPrice, period);
+  if (state.values.length < period) return NaN;
+
+  const mean = state.values.reduce((sum, value) => sum + value, 0) / period;
+  const meanDeviation = state.values.reduce((sum, value) => sum + Math.abs(value - mean), 0) / period;
+  return meanDeviation === 0 ? 0 : (typicalPrice - mean) / (0.015 * meanDeviation);
+}
+
+function updateWilliamsR(state: RangeState, bar: OHLCBar, period: number): number {
+  pushWindow(state.highs, bar.high, period);
+  pushWindow(state.lows, bar.low, period);
+  if (state.highs.length < period) return NaN;
+
+  const highestHigh = Math.max(...state.highs);
+  const lowestLow = Math.min(...state.lows);
+  if (highestHigh === lowestLow) return -50;
+  return ((highestHigh - bar.close) / (highestHigh - lowestLow)) * -100;
+}
+
+// Midpoint of the high-low range over the last period bars
+function rangeMidpoint(state: RangeState, period: number): number {
+  if (state.highs.length < period) return NaN;
+  return (Math.max(...state.highs.slice(-period)) + Math.min(...state.lows.slice(-period))) / 2;
+}
+
+function updateIchimoku(state: IchimokuState, bar: OHLCBar, settings: IndicatorSettings['ichimoku']): IchimokuValues {
+  const size = Math.max(settings.conversion, settings.base, settings.spanB);
+  pushWindow(state.highs, bar.high, size);
+  pushWindow(state.lows, bar.low, size);
+
+  const tenkan = rangeMidpoint(state, settings.conversion);
+  const kijun = rangeMidpoint(state, settings.base);
+
+  // Spans computed now are plotted displacement bars ahead, so the cloud under this bar was computed displacement bars ago
+  state.projected.push({
+    senkouA: toNullable((tenkan + kijun) / 2),
+    senkouB: toNullable(rangeMidpoint(state, settings.spanB))
+  });
+  if (state.projected.length > settings.displacement + 1) state.projected.shift();
+
+  const cloud = state.projected.length > settings.displacement ? state.projected[0] : null;
+  const senkouA = cloud ? fromNullable(cloud.senkouA) : NaN;
+  const senkouB = cloud ? fromNullable(cloud.senkouB) : NaN;
+
+  let position: CloudPosition = 'inside';
+  if (bar.close > Math.max(senkouA, senkouB)) position = 'above';
+  if (bar.close < Math.min(senkouA, senkouB)) position = 'below';
+
+  return { tenkan, kijun, senkouA, senkouB, cloud: position };
+}
+
+function updatePSAR(state: PSARState, bar: OHLCBar, step: number, max: number): { sar: number; trend: 'up' | 'down' | null } {
+  const previous = state.previous;
+  const beforePrevious = state.beforePrevious ?? previous;
+  state.beforePrevious = previous;
+  state.previous = { high: bar.high, low: bar.low, close: bar.close };
+  if (!previous || !beforePrevious) return { sar: NaN, trend: null };
+
+  // The first two bars decide the initial trend
+  if (state.trend === null) {
+    const up = bar.close >= previous.close;
+    state.trend = up ? 'up' : 'down';
+    state.sar = up ? Math.min(previous.low, bar.low) : Math.max(previous.high, bar.high);
+    state.extremePoint = up ? Math.max(previous.high, bar.high) : Math.min(previous.low, bar.low);
+    state.accelerationFactor = step;
+    return { sar: state.sar, trend: state.trend };
+  }
+
+  let sar = state.sar + state.accelerationFactor * (state.extremePoint - state.sar);
+
+  // SAR never moves into the range of the two previous bars; crossing the price reverses the trend
+  if (state.trend === 'up') {
+    sar = Math.min(sar, previous.low, beforePrevious.low);
+    if (bar.low < sar) {
+      state.trend = 'down';
+      sar = state.extremePoint;
+      state.extremePoint = bar.low;
+      state.accelerationFactor = step;
+    } else if (bar.high > state.extremePoint) {
+      state.extremePoint = bar.high;
+      state.accelerationFactor = Math.min(state.accelerationFactor + step, max);
+    }
+  } else {
+    sar = Math.max(sar, previous.high, beforePrevious.high);
+    if (bar.high > sar) {
+      state.trend = 'up';
+      sar = state.extremePoint;
+      state.extremePoint = bar.high;
+      state.accelerationFactor = step;
+    } else if (bar.low < state.extremePoint) {
+      state.extremePoint = bar.low;
+      state.accelerationFactor = Math.min(state.accelerationFactor + step, max);
+    }
+  }
+
+  state.sar = sar;
+  return { sar, trend: state.trend };
+}
+
+// One bar's raw values; NaN where an indicator is still warming up
+interface RawIndicatorValues {
+  rsi: number;
+  macd: number;
+  signal: number;
+  histogram: number;
+  k: number;
+  d: number;
+  emaFast: number;
+  emaSlow: number;
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+  bollinger: BollingerValues;
+  atr: number;
+  cci: number;
+  williamsR: number;
+  ichimoku: IchimokuValues;
+  psar: { sar: number; trend: 'up' | 'down' | null; };
+  patterns: CandlestickPatterns;
+}
+
+function toIndicatorResult(values: RawIndicatorValues, price: number): IndicatorResult {
+  const k = withDefault(values.k, 50);
+  
+  return {
+    price,
+    rsi: withDefault(values.rsi, 50),
+    macd: Number.isNaN(values.histogram)
+      ? { macd: 0, signal: 0, histogram: 0 }
+      : { macd: values.macd, signal: values.signal, histogram: values.histogram },
+    stochastic: { k, d: withDefault(values.d, k) },
+    ema: {
+      fast: withDefault(values.emaFast, price),
+      slow: withDefault(values.emaSlow, price)
+    },
+    adx: {
+      adx: withDefault(values.adx, 25),
+      plusDI: withDefault(values.plusDI, 0),
+      minusDI: withDefault(values.minusDI, 0)
+    },
+    bollinger: bollingerWithDefaults(values.bollinger, price),
+    atr: withDefault(values.atr, 0),
+    cci: withDefault(values.cci, 0),
+    williamsR: withDefault(values.williamsR, -50),
+    ichimoku: ichimokuWithDefaults(values.ichimoku, price),
+    psar: psarWithDefaults(values.psar, price),
+    patterns: values.patterns
+  };
+}
+
+// Collapsed bands at the price until the window fills
+function bollingerWithDefaults(values: BollingerValues, price: number): BollingerValues {
+  if (Number.isNaN(withDefault(values.middle, NaN))) {
+    return { upper: price, middle: price, lower: price, bandwidth: 0, percentB: 0.5 };
+  }
+  return values;
+}
+
+function ichimokuWithDefaults(values: IchimokuValues, price: number): IchimokuValues {
+  return {
+    tenkan: withDefault(values.tenkan, price),
+    kijun: withDefault(values.kijun, price),
+    senkouA: withDefault(values.senkouA, price),
+    senkouB: withDefault(values.senkouB, price),
+    cloud: values.cloud ?? 'inside'
+  };
+}
+
+function psarWithDefaults(values: { sar: number; trend: 'up' | 'down' | null; }, price: number): PSARValues {
+  return { sar: withDefault(values.sar, price), trend: values.trend ?? 'up' };
+}
+
+function resolveSettings(settings: Partial<IndicatorSettings>): IndicatorSettings {
+  return { ...DEFAULT_INDICATOR_SETTINGS, ...settings };
+}
+
+// The last entry of every array in a series
+function lastOf<T extends { [K in keyof T]: unknown[] }>(series: T): { [K in keyof T]: T[K][number] } {
+  const values = {} as { [K in keyof T]: T[K][number] };
+  (Object.keys(series) as (keyof T)[]).forEach(key => {
+    values[key] = series[key][series[key].length - 1];
+  });
+  return values;
+}
+
+function last(values: number[]): number {
+  return values.length > 0 ? values[values.length - 1] : NaN;
+}
+
+function withDefault(value: number, fallback: number): number {
+  return value === undefined || Number.isNaN(value) ? fallback : value;
+}
+
+function toNullable(value: number): number | null {
+  return Number.isNaN(value) ? null : value;
+}
+
+function fromNullable(value: number | null): number {
+  return value === null ? NaN : value;
+}
+
+function toRSI(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return 100;
+  const rs = avgGain / avgLoss;
+  return 100 - (100 / (1 + rs));
 }
@@ -0,0 +1,242 @@
+import { Candle } from '@shared/schema.js';
+import { TechnicalIndicators, OHLCBar } from './indicators.js';
+import { findSwingPoints } from './stop-placement.js';
+import { Timeframe } from './candle-aggregator.js';
+import { getTradingDate } from './market-calendar.js';
+
+export type PivotMethod = 'classic' | 'fibonacci' | 'camarilla';
+
+export interface PivotLevels {
+  method: PivotMethod;
+  pivot: number;
+  resistance: number[]; // R1 first
+  support: number[]; // S1 first
+}
+
+// High, low and close of one FX trading day (17:00 to 17:00 New York)
+export interface DailyRange {
+  date: string; // New York date on which the trading day ends
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface LevelZone {
+  type: 'support' | 'resistance'; // Relative to the current price
+  price: number; // Mean of the clustered swing points
+  low: number;
+  high: number;
+  touches: number; // Swing highs and lows in the zone
+  strong: boolean;
+}
+
+export interface PairLevels {
+  symbol: string;
+  price: number;
+  previousDay: DailyRange | null; // Null until a full trading day has been seen
+  pivots: PivotLevels[];
+  zones: LevelZone[]; // Lowest first
+  updatedAt: string;
+}
+
+export interface LevelSettings {
+  timeframe: Timeframe; // Bars used for the daily ranges and the swing zones
+  lookbackBars: number; // Bars searched for swing points
+  swingStrength: number; // Bars on each side a swing high/low must exceed
+  atrPeriod: number;
+  clusterAtr: number; // Swing points within this many ATRs of a zone join it
+  minTouches: number; // Zones touched at least this often are strong
+}
+
+export const DEFAULT_LEVEL_SETTINGS: LevelSettings = {
+  timeframe: '15m',
+  lookbackBars: 192, // Two trading days of 15m bars
+  swingStrength: 3,
+  atrPeriod: 14,
+  clusterAtr: 0.5,
+  minTouches: 3
+};
+
+export function calculatePivots(day: { high: number; low: number; close: number }): PivotLevels[] {
+  const { high, low, close } = day;
+  const pivot = (high + low + close) / 3;
+  const range = high - low;
+
+  return [
+    {
+      method: 'classic',
+      pivot,
+      resistance: [2 * pivot - low, pivot + range, high + 2 * (pivot - low)],
+      support: [2 * pivot - high, pivot - range, low - 2 * (high - pivot)]
+    },
+    {
+      method: 'fibonacci',
+      pivot,
+      resistance: [0.382, 0.618, 1].map(ratio => pivot + ratio * range),
+      support: [0.382, 0.618, 1].map(ratio => pivot - ratio * range)
+    },
+    {
+      method: 'camarilla',
+      pivot,
+      resistance: [12, 6, 4, 2].map(divisor => close + (range * 1.1) / divisor),
+      support: [12, 6, 4, 2].map(divisor => close - (range * 1.1) / divisor)
+    }
+  ];
+}
+
+/**
+ * Support and resistance zones from swing highs and lows that cluster within
+ * `clusterAtr` ATRs of each other. Highs and lows are pooled, since a broken
+ * resistance tends to turn into support; the more swings a zone holds, the
+ * more often price has reacted there.
+ */
+export function findLevelZones(bars: OHLCBar[], price: number, settings: LevelSettings = DEFAULT_LEVEL_SETTINGS): LevelZone[] {
+  const atr = TechnicalIndicators.calculateATR(
+    bars.map(bar => bar.high),
+    bars.map(bar => bar.low),
+    bars.map(bar => bar.close),
+    settings.atrPeriod
+  );
+  if (!(atr > 0)) return [];
+
+  const swings = findSwingPoints(bars, settings.swingStrength);
+  const points = swings.highs.concat(swings.lows).sort((a, b) => a - b);
+  const tolerance = settings.clusterAtr * atr;
+
+  const clusters: number[][] = [];
+  points.forEach(point => {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && point - mean(cluster) <= tolerance) {
+      cluster.push(point);
+    } else {
+      clusters.push([point]);
+    }
+  });
+
+  return clusters.map(cluster => {
+    const level = mean(cluster);
+    return {
+      type: level >= price ? 'resistance' : 'support',
+      price: level,
+      low: cluster[0],
+      high: cluster[cluster.length - 1],
+      touches: cluster.length,
+      strong: cluster.length >= settings.minTouches
+    };
+  });
+}
+
+// Strong zones plus the most watched daily pivots (classic P, R1 and S1)
+export function getStrongLevels(levels: PairLevels): number[] {
+  const strong = levels.zones.filter(zone => zone.strong).map(zone => zone.price);
+  const classic = levels.pivots.find(pivots => pivots.method === 'classic');
+  if (classic) strong.push(classic.pivot, classic.resistance[0], classic.support[0]);
+  return strong;
+}
+
+// Strong levels price has to get through between entry and target, nearest first
+export function findLevelsBeforeTarget(side: 'BUY' | 'SELL', entry: number, target: number, levels: PairLevels): number[] {
+  const [low, high] = side === 'BUY' ? [entry, target] : [target, entry];
+  return getStrongLevels(levels)
+    .filter(level => level > low && level < high)
+    .sort((a, b) => Math.abs(a - entry) - Math.abs(b - entry));
+}
+
+// A day whose first bar starts within this long of the 17:00 open counts as complete, e.g. after a quiet Sunday open
+const DAY_START_TOLERANCE_MS = 60 * 60 * 1000;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+class PairLevelTracker {
+  private bars: OHLCBar[] = [];
+  private currentDay: DailyRange | null = null;
+  private currentDayComplete = false; // False when the first bar seen came well after the open, e.g. a mid-session start
+  private previousDay: DailyRange | null = null;
+  private updatedAt = 0;
+
+  constructor(private readonly symbol: string, private readonly settings: LevelSettings) {}
+
+  update(candle: Candle): void {
+    const date = getTradingDate(candle.openTime);
+    if (this.currentDay?.date === date) {
+      this.currentDay.high = Math.max(this.currentDay.high, candle.high);
+      this.currentDay.low = Math.min(this.currentDay.low, candle.low);
+      this.currentDay.close = candle.close;
+    } else {
+      // Days without bars (weekends, holidays) are skipped, so pivots come from the last day that traded; a partial day gives none
+      if (this.currentDay) this.previousDay = this.currentDayComplete ? this.currentDay : null;
+      this.currentDay = { date, high: candle.high, low: candle.low, close: candle.close };
+      this.currentDayComplete = getTradingDate(candle.openTime - DAY_START_TOLERANCE_MS) !== date;
+    }
+
+    this.bars.push({ open: candle.open, high: candle.high, low: candle.low, close: candle.close });
+    if (this.bars.length > this.settings.lookbackBars) {
+      this.bars = this.bars.slice(-this.settings.lookbackBars);
+    }
+    this.updatedAt = candle.closeTime;
+  }
+
+  hasBars(): boolean {
+    return this.bars.length > 0;
+  }
+
+  getLevels(price: number = this.bars[this.bars.length - 1]?.close ?? NaN): PairLevels {
+    return {
+      symbol: this.symbol,
+      price,
+      previousDay: this.previousDay ? { ...this.previousDay } : null,
+      pivots: this.previousDay ? calculatePivots(this.previousDay) : [],
+      zones: findLevelZones(this.bars, price, this.settings),
+      updatedAt: new Date(this.updatedAt).toISOString()
+    };
+  }
+}
+
+/**
+ * Daily pivot points (classic, Fibonacci and Camarilla, from the previous
+ * trading day) and clustered swing support/resistance zones per pair, kept
+ * up to date from the closed candles of one timeframe.
+ */
+export class LevelsService {
+  private trackers = new Map<string, PairLevelTracker>();
+  private settings: LevelSettings;
+
+  constructor(settings: Partial<LevelSettings> = {}) {
+    this.settings = { ...DEFAULT_LEVEL_SETTINGS, ...settings };
+  }
+
+  // Feed every closed candle in order; other timeframes are ignored
+  update(candle: Candle): void {
+    if (candle.timeframe !== this.settings.timeframe) return;
+
+    let tracker = this.trackers.get(candle.symbol);
+    if (!tracker) {
+      tracker = new PairLevelTracker(candle.symbol, this.settings);
+      this.trackers.set(candle.symbol, tracker);
+    }
+    tracker.update(candle);
+  }
+
+  // Null until a candle of the configured timeframe has closed for the pair
+  getLevels(symbol: string, price?: number): PairLevels | null {
+    const tracker = this.trackers.get(symbol);
+    return tracker?.hasBars() ? tracker.getLevels(price) : null;
+  }
+
+  getTimeframe(): Timeframe {
+    return this.settings.timeframe;
+  }
+
+  evict(symbol: string): void {
+    this.trackers.delete(symbol);
+  }
+}
+
+// Levels from stored history, e.g. before the live service has seen a candle for the pair
+export function buildLevels(symbol: string, candles: Candle[], settings: Partial<LevelSettings> = {}, price?: number): PairLevels | null {
+  const service = new LevelsService(settings);
+  candles.forEach(candle => service.update(candle));
+  return service.getLevels(symbol, price);
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import { MarketSessionState } from '@shared/schema.js';
+
+export type TradingSession = 'sydney' | 'tokyo' | 'london' | 'new_york';
+
+// A closed FX trading day; `date` is the New York date on which that trading day ends at 17:00
+export interface MarketHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+interface SessionHours {
+  session: TradingSession;
+  timeZone: string;
+  openMinute: number; // Local time, minutes after midnight
+  closeMinute: number;
+}
+
+// Local business hours, so daylight saving shifts are handled by the time zone database
+const SESSIONS: SessionHours[] = [
+  { session: 'sydney', timeZone: 'Australia/Sydney', openMinute: 7 * 60, closeMinute: 16 * 60 },
+  { session: 'tokyo', timeZone: 'Asia/Tokyo', openMinute: 9 * 60, closeMinute: 18 * 60 },
+  { session: 'london', timeZone: 'Europe/London', openMinute: 8 * 60, closeMinute: 17 * 60 },
+  { session: 'new_york', timeZone: 'America/New_York', openMinute: 8 * 60, closeMinute: 17 * 60 }
+];
+
+// The FX week and trading day roll over at 17:00 New York time
+const NEW_YORK = 'America/New_York';
+const ROLLOVER_MINUTE = 17 * 60;
+
+export const MARKET_HOLIDAYS_FILE = process.env.MARKET_HOLIDAYS_FILE
+  || path.resolve('server', 'config', 'market-holidays.json');
+
+interface ZonedTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  minute: number; // Minutes after local midnight
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function getZonedTime(timestamp: number, timeZone: string): ZonedTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(new Date(timestamp)).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minute: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// New York date of the trading day containing the timestamp; after 17:00 the next calendar day's session is already running
+export function getTradingDate(timestamp: number): string {
+  const newYork = getZonedTime(timestamp, NEW_YORK);
+  return newYork.minute >= ROLLOVER_MINUTE ? addDays(newYork.date, 1) : newYork.date;
+}
+
+export function loadHolidays(file: string = MARKET_HOLIDAYS_FILE): MarketHoliday[] {
+  try {
+    const holidays = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!Array.isArray(holidays)) throw new Error('expected an array of { date, name }');
+    return holidays.filter((holiday): holiday is MarketHoliday =>
+      typeof holiday?.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(holiday.date)
+    );
+  } catch (error) {
+    console.warn(`No market holidays loaded from ${file}:`, (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Forex trading calendar: the market runs from Sunday 17:00 to Friday 17:00
+ * New York time, minus configured holidays, and the Sydney, Tokyo, London and
+ * New York sessions overlap within that week. Set MARKET_HOURS_ALWAYS_OPEN=true
+ * to ignore closures, e.g. when working with the demo feed at the weekend.
+ */
+export class MarketCalendar {
+  private holidays: Map<string, string>;
+
+  constructor(
+    holidays: MarketHoliday[] = loadHolidays(),
+    private readonly alwaysOpen: boolean = process.env.MARKET_HOURS_ALWAYS_OPEN === 'true'
+  ) {
+    this.holidays = new Map(holidays.map(holiday => [holiday.date, holiday.name]));
+
+    // The file is maintained by hand; a year without entries means holiday closures are not enforced
+    const year = getTradingDate(Date.now()).slice(0, 4);
+    if (!alwaysOpen && !holidays.some(holiday => holiday.date.startsWith(year))) {
+      console.warn(`No market holidays listed for ${year} in ${MARKET_HOLIDAYS_FILE}; add them to close the market on holidays`);
+    }
+  }
+
+  isOpen(timestamp: number): boolean {
+    return this.getClosure(timestamp) === null;
+  }
+
+  getActiveSessions(timestamp: number): TradingSession[] {
+    if (!this.isOpen(timestamp)) return [];
+
+    return SESSIONS
+      .filter(({ timeZone, openMinute, closeMinute }) => {
+        const local = getZonedTime(timestamp, timeZone);
+        // Sessions only run on local weekdays
+        return local.weekday !== 0 && local.weekday !== 6
+          && local.minute >= openMinute && local.minute < closeMinute;
+      })
+      .map(({ session }) => session);
+  }
+
+  // Label stored with signals, e.g. 'london+new_york' during the overlap
+  getSessionLabel(timestamp: number): string {
+    if (!this.isOpen(timestamp)) return 'closed';
+    const sessions = this.getActiveSessions(timestamp);
+    return sessions.length > 0 ? sessions.join('+') : 'off_hours';
+  }
+
+  getState(timestamp: number): MarketSessionState {
+    const closure = this.getClosure(timestamp);
+    if (!closure) {
+      return { open: true, sessions: this.getActiveSessions(timestamp) };
+    }
+
+    return {
+      open: false,
+      sessions: [],
+      reason: closure.reason,
+      holiday: closure.holiday,
+      nextOpen: this.findNextOpen(timestamp)
+    };
+  }
+
+  private getClosure(timestamp: number): { reason: 'weekend' | 'holiday'; holiday?: string } | null {
+    if (this.alwaysOpen) return null;
+
+    const newYork = getZonedTime(timestamp, NEW_YORK);
+    const afterRollover = newYork.minute >= ROLLOVER_MINUTE;
+
+    if ((newYork.weekday === 5 && afterRollover)
+      || newYork.weekday === 6
+      || (newYork.weekday === 0 && !afterRollover)) {
+      return { reason: 'weekend' };
+    }
+
+    const holiday = this.holidays.get(getTradingDate(timestamp));
+    return holiday ? { reason: 'holiday', holiday } : null;
+  }
+
+  // Openings fall on quarter hours in every zone, so a 15 minute scan finds them exactly
+  private findNextOpen(timestamp: number): string | undefined {
+    const step = 15 * 60 * 1000;
+    let candidate = Math.ceil(timestamp / step) * step;
+    for (let i = 0; i < 14 * 24 * 4; i++, candidate += step) {
+      if (this.isOpen(candidate)) return new Date(candidate).toISOString();
+    }
+    return undefined;
+  }
+}
+
+export const marketCalendar = new MarketCalendar();
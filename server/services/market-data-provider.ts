@@ -0,0 +1,45 @@
+import { MarketUpdate, SystemStatus } from '@shared/schema.js';
+
+export type MarketTick = MarketUpdate['data'];
+export type ProviderStatus = SystemStatus['data'];
+
+// Latest known quote for a pair; timestamp is epoch ms
+export interface Quote {
+  symbol: string;
+  bid: number;
+  ask: number;
+  spread: number;
+  timestamp: number;
+  synthetic?: boolean; // Triangulated from other pairs rather than quoted directly
+}
+
+/**
+ * Contract shared by every market data feed. Providers only deliver
+ * normalized ticks and status updates; signal generation happens downstream.
+ * Symbols are always in the standard `BASE/QUOTE` format.
+ */
+export interface MarketDataProvider {
+  readonly id: string;
+  readonly name: string;
+  // How long the feed may go without a tick before it is considered stale
+  readonly staleAfterMs: number;
+
+  setCallbacks(
+    onTick: (tick: MarketTick) => void,
+    onStatus: (status: ProviderStatus) => void
+  ): void;
+
+  start(): Promise<void>;
+  stop(): Promise<void>;
+
+  subscribe(symbols: string[]): Promise<void>;
+  unsubscribe(symbols: string[]): Promise<void>;
+  getSubscriptions(): string[];
+  getQuotes(): Quote[];
+
+  isConnected(): boolean;
+  getConnectionStatus(): ProviderStatus;
+
+  // Current time on the feed's clock: wall-clock for live feeds, virtual time for replays
+  now(): number;
+}
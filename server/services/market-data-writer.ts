@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+import { MarketData } from '@shared/schema.js';
+import { IStorage } from '../storage.js';
+import { MarketTick } from './market-data-provider.js';
+
+/**
+ * Persists every normalized tick through storage so price history survives
+ * restarts. Ticks are buffered and written in batches; if storage is down the
+ * buffer is capped and the oldest ticks are dropped.
+ */
+export class MarketDataWriter {
+  private buffer: MarketData[] = [];
+  private flushInterval: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private droppedCount = 0;
+
+  private readonly flushIntervalMs = 1000;
+  private readonly maxBufferSize = 10000;
+
+  constructor(private readonly storage: IStorage) {}
+
+  start() {
+    if (this.flushInterval) return;
+    this.flushInterval = setInterval(() => {
+      this.flush().catch(error => console.error('Failed to persist market data:', error));
+    }, this.flushIntervalMs);
+  }
+
+  // Waits for a write in progress, then writes whatever is still buffered
+  async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    await this.flushing?.catch(() => undefined);
+    await this.flush();
+  }
+
+  add(tick: MarketTick): void {
+    const hasQuote = tick.bid !== undefined && tick.ask !== undefined;
+    this.buffer.push({
+      id: randomUUID(),
+      timestamp: new Date(tick.timestamp),
+      symbol: tick.symbol,
+      price: tick.price,
+      volume: tick.volume ?? null,
+      bid: tick.bid ?? null,
+      ask: tick.ask ?? null,
+      spread: hasQuote ? tick.ask! - tick.bid! : null
+    });
+
+    if (this.buffer.length > this.maxBufferSize) {
+      const overflow = this.buffer.length - this.maxBufferSize;
+      this.buffer.splice(0, overflow);
+      this.droppedCount += overflow;
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushing || this.buffer.length === 0) return;
+
+    this.flushing = this.write();
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  private async write(): Promise<void> {
+    const batch = this.buffer;
+    this.buffer = [];
+
+    try {
+      await this.storage.saveMarketDataBatch(batch);
+      if (this.droppedCount > 0) {
+        console.warn(`Dropped ${this.droppedCount} market ticks while storage was unavailable`);
+        this.droppedCount = 0;
+      }
+    } catch (error) {
+      // Put the batch back so it is retried with the next flush
+      this.buffer = batch.concat(this.buffer);
+      throw error;
+    }
+  }
+}
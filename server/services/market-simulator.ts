@@ -0,0 +1,213 @@
+export type VolatilityRegime = 'calm' | 'normal' | 'volatile';
+
+export interface SimulatedPairConfig {
+  initialPrice: number;
+  annualVolatility: number; // e.g. 0.08 for 8% a year
+  meanReversionHalfLifeDays: number; // How quickly deviations from the initial price decay
+  pipSize: number;
+  typicalSpreadPips: number;
+  volumePerMinute: number; // Average traded volume in calm-to-normal conditions
+}
+
+export interface SimulatorOptions {
+  // Simulated milliseconds per real millisecond, so a short demo still shows trends and divergences
+  timeScale: number;
+  meanRegimeDurationMs: number;
+  trendsPerDay: number;
+  meanTrendDurationMs: number;
+  trendMovePerHourPct: number; // Price drift while a trend event is active
+  jumpsPerDay: number;
+  jumpSizePct: number; // Standard deviation of a jump as a percentage of price
+}
+
+export interface SimulatedQuote {
+  symbol: string;
+  mid: number;
+  bid: number;
+  ask: number;
+  volume: number;
+  regime: VolatilityRegime;
+  trend: -1 | 0 | 1;
+  jumped: boolean;
+}
+
+// Covers every pair MemStorage seeds as active
+export const DEFAULT_PAIR_CONFIGS: Record<string, SimulatedPairConfig> = {
+  'EUR/USD': { initialPrice: 1.0850, annualVolatility: 0.07, meanReversionHalfLifeDays: 5, pipSize: 0.0001, typicalSpreadPips: 0.8, volumePerMinute: 1200 },
+  'GBP/USD': { initialPrice: 1.2700, annualVolatility: 0.08, meanReversionHalfLifeDays: 5, pipSize: 0.0001, typicalSpreadPips: 1.2, volumePerMinute: 900 },
+  'USD/JPY': { initialPrice: 151.50, annualVolatility: 0.09, meanReversionHalfLifeDays: 7, pipSize: 0.01, typicalSpreadPips: 1.0, volumePerMinute: 1000 },
+  'USD/CHF': { initialPrice: 0.8850, annualVolatility: 0.07, meanReversionHalfLifeDays: 5, pipSize: 0.0001, typicalSpreadPips: 1.5, volumePerMinute: 500 },
+  'AUD/USD': { initialPrice: 0.6550, annualVolatility: 0.10, meanReversionHalfLifeDays: 5, pipSize: 0.0001, typicalSpreadPips: 1.0, volumePerMinute: 700 },
+  'USD/CAD': { initialPrice: 1.3600, annualVolatility: 0.06, meanReversionHalfLifeDays: 5, pipSize: 0.0001, typicalSpreadPips: 1.5, volumePerMinute: 600 }
+};
+
+export const DEFAULT_SIMULATOR_OPTIONS: SimulatorOptions = {
+  timeScale: 1,
+  meanRegimeDurationMs: 45 * 60 * 1000,
+  trendsPerDay: 6,
+  meanTrendDurationMs: 40 * 60 * 1000,
+  trendMovePerHourPct: 0.25,
+  jumpsPerDay: 3,
+  jumpSizePct: 0.15
+};
+
+const REGIME_VOLATILITY: Record<VolatilityRegime, number> = { calm: 0.6, normal: 1, volatile: 2.5 };
+const REGIME_SPREAD: Record<VolatilityRegime, number> = { calm: 0.9, normal: 1, volatile: 2 };
+const REGIMES: VolatilityRegime[] = ['calm', 'normal', 'volatile'];
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// Small, fast PRNG with a 32-bit state; the same seed always yields the same sequence
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a, used to give every pair its own random stream derived from the seed
+function hashString(value: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+interface PairState {
+  config: SimulatedPairConfig;
+  random: () => number;
+  logPrice: number;
+  regime: VolatilityRegime;
+  trend: -1 | 0 | 1;
+  trendRemainingMs: number;
+}
+
+/**
+ * Seeded FX price simulator: geometric Brownian motion with mean reversion
+ * towards each pair's initial price, Markov-switching volatility regimes, and
+ * occasional trend and jump events. Every pair draws from its own stream, so
+ * a pair's path depends only on the seed and the steps taken for that pair.
+ */
+export class MarketSimulator {
+  private pairs = new Map<string, PairState>();
+  private readonly options: SimulatorOptions;
+
+  constructor(
+    readonly seed: number,
+    private readonly configs: Record<string, SimulatedPairConfig> = DEFAULT_PAIR_CONFIGS,
+    options: Partial<SimulatorOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_SIMULATOR_OPTIONS, ...options };
+  }
+
+  hasPair(symbol: string): boolean {
+    return symbol in this.configs;
+  }
+
+  getSymbols(): string[] {
+    return Object.keys(this.configs);
+  }
+
+  // Advance one pair by elapsedMs of real time and return its new quote
+  step(symbol: string, elapsedMs: number): SimulatedQuote {
+    const state = this.getState(symbol);
+    const { config, random } = state;
+    const simulatedMs = elapsedMs * this.options.timeScale;
+    const dt = simulatedMs / MS_PER_YEAR;
+
+    this.updateRegime(state, simulatedMs);
+    this.updateTrend(state, simulatedMs);
+
+    const sigma = config.annualVolatility * REGIME_VOLATILITY[state.regime];
+    const theta = Math.LN2 / (config.meanReversionHalfLifeDays * MS_PER_DAY / MS_PER_YEAR);
+    const trendDrift = this.options.trendMovePerHourPct / 100 * (MS_PER_YEAR / MS_PER_HOUR);
+    const drift = theta * (Math.log(config.initialPrice) - state.logPrice) + state.trend * trendDrift;
+
+    state.logPrice += (drift - 0.5 * sigma * sigma) * dt + sigma * Math.sqrt(dt) * this.normal(random);
+
+    const jumped = random() < this.options.jumpsPerDay * simulatedMs / MS_PER_DAY;
+    if (jumped) {
+      state.logPrice += this.normal(random) * this.options.jumpSizePct / 100;
+    }
+
+    const mid = Math.exp(state.logPrice);
+    // Spreads widen in volatile markets and around jumps
+    const spreadPips = config.typicalSpreadPips * REGIME_SPREAD[state.regime]
+      * (1 + 0.25 * Math.abs(this.normal(random))) * (jumped ? 3 : 1);
+    const spread = spreadPips * config.pipSize;
+
+    const minutes = simulatedMs / 60000;
+    const volume = Math.round(
+      config.volumePerMinute * minutes * REGIME_VOLATILITY[state.regime]
+      * (0.5 + random()) * (jumped ? 4 : 1)
+    );
+
+    return {
+      symbol,
+      mid,
+      bid: mid - spread / 2,
+      ask: mid + spread / 2,
+      volume,
+      regime: state.regime,
+      trend: state.trend,
+      jumped
+    };
+  }
+
+  private getState(symbol: string): PairState {
+    let state = this.pairs.get(symbol);
+    if (state) return state;
+
+    const config = this.configs[symbol];
+    if (!config) {
+      throw new Error(`No simulation config for ${symbol}`);
+    }
+
+    state = {
+      config,
+      random: mulberry32(this.seed ^ hashString(symbol)),
+      logPrice: Math.log(config.initialPrice),
+      regime: 'normal',
+      trend: 0,
+      trendRemainingMs: 0
+    };
+    this.pairs.set(symbol, state);
+    return state;
+  }
+
+  private updateRegime(state: PairState, simulatedMs: number) {
+    if (state.random() >= simulatedMs / this.options.meanRegimeDurationMs) return;
+
+    const others = REGIMES.filter(regime => regime !== state.regime);
+    state.regime = others[Math.floor(state.random() * others.length)];
+  }
+
+  private updateTrend(state: PairState, simulatedMs: number) {
+    if (state.trend !== 0) {
+      state.trendRemainingMs -= simulatedMs;
+      if (state.trendRemainingMs <= 0) state.trend = 0;
+      return;
+    }
+
+    if (state.random() < this.options.trendsPerDay * simulatedMs / MS_PER_DAY) {
+      state.trend = state.random() < 0.5 ? -1 : 1;
+      // Exponentially distributed duration around the configured mean
+      state.trendRemainingMs = -Math.log(1 - state.random()) * this.options.meanTrendDurationMs;
+    }
+  }
+
+  // Standard normal draw via Box-Muller
+  private normal(random: () => number): number {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
@@ -0,0 +1,388 @@
+import { MarketDataProvider, MarketTick, ProviderStatus, Quote } from './market-data-provider.js';
+import { ProviderRegistry } from './provider-registry.js';
+import { marketCalendar } from './market-calendar.js';
+import { ProviderHealth } from '@shared/schema.js';
+
+interface ProviderSlot {
+  id: string;
+  provider: MarketDataProvider;
+  running: boolean;
+  startedAt: number;
+  lastTickAt: number | null;
+  lastProbeAt: number;
+  // Per health check (ticks, errors) counts, newest last
+  eventWindow: Array<{ ticks: number; errors: number }>;
+  ticksSinceCheck: number;
+  lastErrorCount: number;
+}
+
+interface SwitchRecord {
+  from: string;
+  to: string;
+  reason: string;
+  at: number;
+}
+
+/**
+ * Runs the configured providers as a priority chain (e.g. Finnhub, then
+ * ExchangeRate-API, then demo). Only the active provider's ticks are
+ * forwarded. Health is scored from staleness, recent error rate and reconnect
+ * attempts; an unhealthy active provider is replaced by the next one in the
+ * chain, and higher-priority providers are probed periodically so the feed
+ * switches back once they recover.
+ */
+export class ProviderFailoverCoordinator implements MarketDataProvider {
+  readonly id = 'failover';
+
+  private slots: ProviderSlot[];
+  private activeIndex = -1;
+  private lastSwitch: SwitchRecord | null = null;
+  private subscriptions: Set<string> | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  private readonly healthCheckIntervalMs = 10 * 1000;
+  private readonly recoveryProbeIntervalMs = 60 * 1000;
+  private readonly startupGraceMs = 30 * 1000;
+  private readonly errorWindowChecks = 30; // Five minutes of health checks
+  private readonly healthyScore = 0.5;
+
+  private onTickCallback?: (tick: MarketTick) => void;
+  private onStatusCallback?: (status: ProviderStatus) => void;
+
+  constructor(registry: ProviderRegistry, providerIds: string[] = registry.getConfiguredIds()) {
+    if (providerIds.length === 0) {
+      throw new Error('No configured market data provider is available');
+    }
+
+    this.slots = providerIds.map(id => ({
+      id,
+      provider: registry.create(id),
+      running: false,
+      startedAt: 0,
+      lastTickAt: null,
+      lastProbeAt: 0,
+      eventWindow: [],
+      ticksSinceCheck: 0,
+      lastErrorCount: 0
+    }));
+
+    this.slots.forEach((slot, index) => {
+      slot.provider.setCallbacks(
+        (tick) => this.handleTick(index, tick),
+        () => this.handleStatus(index)
+      );
+    });
+  }
+
+  get name(): string {
+    return this.getActiveSlot()?.provider.name ?? 'Failover';
+  }
+
+  get staleAfterMs(): number {
+    return this.getActiveSlot()?.provider.staleAfterMs ?? 60 * 1000;
+  }
+
+  setCallbacks(
+    onTick: (tick: MarketTick) => void,
+    onStatus: (status: ProviderStatus) => void
+  ) {
+    this.onTickCallback = onTick;
+    this.onStatusCallback = onStatus;
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    for (let index = 0; index < this.slots.length; index++) {
+      if (await this.startSlot(index)) {
+        this.activate(index, index === 0 ? 'Primary provider' : `${this.describeSkipped(index)} unavailable at startup`);
+        break;
+      }
+    }
+
+    if (this.activeIndex === -1) {
+      console.error('No market data provider could be started');
+    }
+
+    this.checkInterval = setInterval(() => {
+      this.checkHealth().catch(error => console.error('Provider health check failed:', error));
+    }, this.healthCheckIntervalMs);
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false;
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    await Promise.all(this.slots.map((_, index) => this.stopSlot(index)));
+    this.activeIndex = -1;
+  }
+
+  async subscribe(symbols: string[]): Promise<void> {
+    const current = this.subscriptions ? Array.from(this.subscriptions) : this.getSubscriptions();
+    this.subscriptions = new Set(current.concat(symbols));
+    await Promise.all(this.slots.map(slot => slot.provider.subscribe(symbols)));
+  }
+
+  async unsubscribe(symbols: string[]): Promise<void> {
+    const remaining = (this.subscriptions ? Array.from(this.subscriptions) : this.getSubscriptions())
+      .filter(symbol => !symbols.includes(symbol));
+    this.subscriptions = new Set(remaining);
+    await Promise.all(this.slots.map(slot => slot.provider.unsubscribe(symbols)));
+  }
+
+  getSubscriptions(): string[] {
+    if (this.subscriptions) return Array.from(this.subscriptions);
+    return this.getActiveSlot()?.provider.getSubscriptions() ?? [];
+  }
+
+  getQuotes(): Quote[] {
+    return this.getActiveSlot()?.provider.getQuotes() ?? [];
+  }
+
+  isConnected(): boolean {
+    return this.getActiveSlot()?.provider.isConnected() ?? false;
+  }
+
+  now(): number {
+    return this.getActiveSlot()?.provider.now() ?? Date.now();
+  }
+
+  getActiveProviderId(): string | null {
+    return this.getActiveSlot()?.id ?? null;
+  }
+
+  getProvider(id: string): MarketDataProvider | undefined {
+    return this.slots.find(slot => slot.id === id)?.provider;
+  }
+
+  getConnectionStatus(): ProviderStatus {
+    const active = this.getActiveSlot();
+    const base: ProviderStatus = active
+      ? active.provider.getConnectionStatus()
+      : { connected: false, mode: 'offline', rateLimit: { current: 0, max: 0 } };
+
+    return {
+      ...base,
+      provider: this.name,
+      failover: {
+        activeProvider: this.name,
+        reason: this.lastSwitch?.reason,
+        switchedAt: this.lastSwitch ? new Date(this.lastSwitch.at).toISOString() : undefined,
+        previousProvider: this.lastSwitch?.from || undefined,
+        providers: this.getHealth()
+      }
+    };
+  }
+
+  getHealth(now: number = Date.now()): ProviderHealth[] {
+    return this.slots.map((_, index) => this.evaluateHealth(index, now));
+  }
+
+  private async checkHealth(): Promise<void> {
+    const now = Date.now();
+
+    // Roll the error-rate window for every running provider
+    this.slots.forEach(slot => {
+      if (!slot.running) return;
+      const errorCount = slot.provider.getConnectionStatus().errorCount ?? 0;
+      slot.eventWindow.push({
+        ticks: slot.ticksSinceCheck,
+        errors: Math.max(0, errorCount - slot.lastErrorCount)
+      });
+      if (slot.eventWindow.length > this.errorWindowChecks) {
+        slot.eventWindow.shift();
+      }
+      slot.ticksSinceCheck = 0;
+      slot.lastErrorCount = errorCount;
+    });
+
+    const active = this.activeIndex >= 0 ? this.evaluateHealth(this.activeIndex, now) : null;
+
+    if (!active || !active.healthy) {
+      const switched = await this.failOver(active ? this.describeUnhealthy(active, now) : 'No active provider');
+      if (!switched) await this.tryRecover(now);
+    } else if (this.activeIndex > 0) {
+      await this.tryRecover(now);
+    }
+
+    this.emitStatus();
+  }
+
+  private async failOver(reason: string): Promise<boolean> {
+    // Only fall further down the chain; higher-priority providers come back through recovery
+    const candidates = this.slots
+      .map((_, index) => index)
+      .filter(index => index > this.activeIndex);
+
+    for (const index of candidates) {
+      if (this.slots[index].running || await this.startSlot(index)) {
+        const previous = this.activeIndex;
+        this.activate(index, reason);
+        // The failed provider is restarted later by recovery probes
+        if (previous >= 0) {
+          await this.stopSlot(previous);
+          this.slots[previous].lastProbeAt = Date.now();
+        }
+        return true;
+      }
+    }
+
+    console.warn(`Market data provider unhealthy (${reason}) and no fallback could be started`);
+    return false;
+  }
+
+  private async tryRecover(now: number): Promise<void> {
+    for (let index = 0; index < this.activeIndex; index++) {
+      const slot = this.slots[index];
+      const health = this.evaluateHealth(index, now);
+
+      // Require a real tick since the probe started, not just the startup grace period
+      if (slot.running && health.healthy && slot.lastTickAt !== null && slot.lastTickAt >= slot.startedAt) {
+        const previous = this.activeIndex;
+        this.activate(index, `${slot.provider.name} recovered`);
+        await this.stopSlot(previous);
+        return;
+      }
+
+      if (now - slot.lastProbeAt >= this.recoveryProbeIntervalMs && !health.connected) {
+        slot.lastProbeAt = now;
+        await this.stopSlot(index);
+        await this.startSlot(index);
+      }
+    }
+  }
+
+  private activate(index: number, reason: string): void {
+    const previous = this.getActiveSlot();
+    this.activeIndex = index;
+    const next = this.slots[index];
+
+    this.lastSwitch = {
+      from: previous?.provider.name ?? '',
+      to: next.provider.name,
+      reason,
+      at: Date.now()
+    };
+
+    console.log(previous
+      ? `Market data failover: ${previous.provider.name} -> ${next.provider.name} (${reason})`
+      : `Market data provider active: ${next.provider.name} (${reason})`);
+
+    this.emitStatus();
+  }
+
+  private async startSlot(index: number): Promise<boolean> {
+    const slot = this.slots[index];
+    slot.running = true;
+    slot.startedAt = Date.now();
+    slot.lastProbeAt = slot.startedAt;
+    slot.lastTickAt = null;
+    // Judge a restarted provider on its new session only
+    slot.eventWindow = [];
+    slot.ticksSinceCheck = 0;
+    slot.lastErrorCount = slot.provider.getConnectionStatus().errorCount ?? 0;
+
+    try {
+      await slot.provider.start();
+      return true;
+    } catch (error) {
+      console.error(`Failed to start ${slot.provider.name}:`, error);
+      slot.running = false;
+      return false;
+    }
+  }
+
+  private async stopSlot(index: number): Promise<void> {
+    const slot = this.slots[index];
+    if (!slot.running) return;
+    slot.running = false;
+
+    try {
+      await slot.provider.stop();
+    } catch (error) {
+      console.error(`Failed to stop ${slot.provider.name}:`, error);
+    }
+  }
+
+  private evaluateHealth(index: number, now: number): ProviderHealth {
+    const slot = this.slots[index];
+    const status = slot.running ? slot.provider.getConnectionStatus() : null;
+    const connected = !!status?.connected;
+    const reconnectAttempts = status?.reconnectAttempts ?? 0;
+
+    const ticks = slot.eventWindow.reduce((sum, w) => sum + w.ticks, 0) + slot.ticksSinceCheck;
+    const errors = slot.eventWindow.reduce((sum, w) => sum + w.errors, 0);
+    const errorRate = ticks + errors > 0 ? errors / (ticks + errors) : 0;
+
+    const stalenessMs = slot.lastTickAt !== null ? now - slot.lastTickAt : null;
+    const silentForMs = now - (slot.lastTickAt ?? slot.startedAt);
+    const staleAfterMs = slot.provider.staleAfterMs;
+    const inStartupGrace = slot.lastTickAt === null && now - slot.startedAt < Math.max(this.startupGraceMs, staleAfterMs);
+
+    let score = 0;
+    if (slot.running && (connected || inStartupGrace)) {
+      // Silence is expected while the market is closed and is not held against a provider
+      const freshness = silentForMs <= staleAfterMs || !marketCalendar.isOpen(now)
+        ? 1
+        : Math.max(0, 1 - (silentForMs - staleAfterMs) / staleAfterMs);
+      const reconnectPenalty = Math.min(reconnectAttempts, 5) * 0.1;
+      score = freshness * (1 - errorRate) * (1 - reconnectPenalty);
+    }
+
+    return {
+      id: slot.id,
+      name: slot.provider.name,
+      running: slot.running,
+      connected,
+      stalenessMs,
+      errorRate: Math.round(errorRate * 1000) / 1000,
+      reconnectAttempts,
+      score: Math.round(score * 100) / 100,
+      healthy: score >= this.healthyScore
+    };
+  }
+
+  private describeUnhealthy(health: ProviderHealth, now: number): string {
+    const slot = this.slots[this.activeIndex];
+    if (!health.connected) {
+      return `${health.name} disconnected${health.reconnectAttempts ? ` after ${health.reconnectAttempts} reconnect attempts` : ''}`;
+    }
+    if (health.errorRate >= 0.5) {
+      return `${health.name} error rate ${Math.round(health.errorRate * 100)}%`;
+    }
+    const silentForMs = now - (slot.lastTickAt ?? slot.startedAt);
+    return `${health.name} stale: no ticks for ${Math.round(silentForMs / 1000)}s`;
+  }
+
+  private describeSkipped(index: number): string {
+    return this.slots.slice(0, index).map(slot => slot.provider.name).join(', ');
+  }
+
+  private handleTick(index: number, tick: MarketTick): void {
+    const slot = this.slots[index];
+    slot.lastTickAt = Date.now();
+    slot.ticksSinceCheck++;
+
+    if (index === this.activeIndex) {
+      this.onTickCallback?.(tick);
+    }
+  }
+
+  private handleStatus(index: number): void {
+    if (index === this.activeIndex) {
+      this.emitStatus();
+    }
+  }
+
+  private emitStatus(): void {
+    this.onStatusCallback?.(this.getConnectionStatus());
+  }
+
+  private getActiveSlot(): ProviderSlot | undefined {
+    return this.activeIndex >= 0 ? this.slots[this.activeIndex] : undefined;
+  }
+}
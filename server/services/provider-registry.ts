@@ -0,0 +1,122 @@
+import { MarketDataProvider } from './market-data-provider.js';
+import { ForexService } from './forex-service.js';
+import { ExchangeRateService } from './exchangerate-service.js';
+import { FinnhubService } from './finnhub-service.js';
+import { DemoDataService } from './demo-data-service.js';
+import { ReplayProvider, ReplaySpeed } from './replay-provider.js';
+
+export interface ProviderRegistration {
+  id: string;
+  description: string;
+  // Whether the configuration the provider needs (API keys etc.) is present
+  isAvailable: () => boolean;
+  create: () => MarketDataProvider;
+}
+
+/**
+ * Catalogue of market data providers. The active provider is chosen from the
+ * `MARKET_DATA_PROVIDERS` setting, a comma-separated list of provider ids in
+ * order of preference; the first available one is used.
+ */
+export class ProviderRegistry {
+  private registrations = new Map<string, ProviderRegistration>();
+
+  register(registration: ProviderRegistration): void {
+    if (this.registrations.has(registration.id)) {
+      throw new Error(`Market data provider '${registration.id}' is already registered`);
+    }
+    this.registrations.set(registration.id, registration);
+  }
+
+  has(id: string): boolean {
+    return this.registrations.has(id);
+  }
+
+  list(): ProviderRegistration[] {
+    return Array.from(this.registrations.values());
+  }
+
+  create(id: string): MarketDataProvider {
+    const registration = this.registrations.get(id);
+    if (!registration) {
+      throw new Error(`Unknown market data provider '${id}'`);
+    }
+    if (!registration.isAvailable()) {
+      throw new Error(`Market data provider '${id}' is missing required configuration`);
+    }
+    return registration.create();
+  }
+
+  // Configured provider ids that are registered and available, in order of preference
+  getConfiguredIds(config: string | undefined = process.env.MARKET_DATA_PROVIDERS): string[] {
+    const requested = (config || this.getDefaultConfig())
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+
+    requested
+      .filter(id => !this.registrations.has(id))
+      .forEach(id => console.warn(`Ignoring unknown market data provider '${id}'`));
+
+    return requested.filter(id => this.registrations.get(id)?.isAvailable());
+  }
+
+  createFromConfig(config?: string): MarketDataProvider {
+    const [id] = this.getConfiguredIds(config);
+    if (!id) {
+      throw new Error('No configured market data provider is available');
+    }
+    return this.create(id);
+  }
+
+  // Preserve the previous key-based behaviour when no providers are configured:
+  // live feeds (falling back to demo) once an API key is set, demo otherwise
+  private getDefaultConfig(): string {
+    return process.env.FINNHUB_API_KEY || process.env.EXCHANGERATE_API_KEY
+      ? 'finnhub,exchangerate,demo'
+      : 'demo';
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register({
+  id: 'finnhub',
+  description: 'Finnhub real-time forex trades over WebSocket (FINNHUB_WS_URL overrides the endpoint)',
+  isAvailable: () => !!process.env.FINNHUB_API_KEY,
+  create: () => new FinnhubService(process.env.FINNHUB_API_KEY!, { url: process.env.FINNHUB_WS_URL })
+});
+
+providerRegistry.register({
+  id: 'exchangerate',
+  description: 'ExchangeRate-API polled USD rates (higher limits with EXCHANGERATE_API_KEY)',
+  isAvailable: () => true,
+  create: () => new ForexService()
+});
+
+providerRegistry.register({
+  id: 'exchangerate-v4',
+  description: 'ExchangeRate-API v4 multi-base rates',
+  isAvailable: () => true,
+  create: () => new ExchangeRateService()
+});
+
+providerRegistry.register({
+  id: 'replay',
+  description: 'Plays back a recorded tick session from REPLAY_FILE (REPLAY_SPEED: 1, 10 or max)',
+  isAvailable: () => !!process.env.REPLAY_FILE,
+  create: () => new ReplayProvider(process.env.REPLAY_FILE!, parseReplaySpeed(process.env.REPLAY_SPEED))
+});
+
+providerRegistry.register({
+  id: 'demo',
+  description: 'Simulated prices for development without API keys',
+  isAvailable: () => true,
+  create: () => new DemoDataService()
+});
+
+function parseReplaySpeed(value: string | undefined): ReplaySpeed {
+  if (value === 'max') return 'max';
+  const speed = Number(value);
+  return speed > 0 ? speed : 1;
+}
@@ -0,0 +1,254 @@
+import fs from 'fs';
+import path from 'path';
+import { ProviderStatus } from './market-data-provider.js';
+
+export type QuotaWindow = 'minute' | 'day' | 'month';
+
+export interface QuotaPolicy {
+  limit: number; // Requests allowed per window
+  window: QuotaWindow;
+  // Token bucket capacity; tokens refill at the rate that spreads the remaining budget evenly
+  burst?: number;
+}
+
+export interface QuotaUsage {
+  provider: string;
+  used: number;
+  limit: number;
+  remaining: number;
+  window: QuotaWindow;
+  windowStart: string;
+  resetTime: string;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(readonly provider: string, readonly retryAt: number) {
+    super(`Request budget for ${provider} exhausted until ${new Date(retryAt).toISOString()}`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+interface QuotaState {
+  policy: QuotaPolicy;
+  windowStart: number;
+  used: number;
+  tokens: number;
+  lastRefill: number;
+}
+
+// Only window counters survive a restart; the token bucket starts full
+type PersistedUsage = Record<string, { windowStart: number; used: number }>;
+
+export const QUOTA_STATE_FILE = process.env.QUOTA_STATE_FILE || path.resolve('data', 'quota-usage.json');
+
+// Calendar windows in UTC, matching how the APIs reset their counters
+function getWindowStart(timestamp: number, window: QuotaWindow): number {
+  const date = new Date(timestamp);
+  switch (window) {
+    case 'minute':
+      return Math.floor(timestamp / 60000) * 60000;
+    case 'day':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+}
+
+function getWindowEnd(windowStart: number, window: QuotaWindow): number {
+  const date = new Date(windowStart);
+  switch (window) {
+    case 'minute':
+      return windowStart + 60000;
+    case 'day':
+      return windowStart + 24 * 60 * 60 * 1000;
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+}
+
+/**
+ * Central request budget for every outbound market data call. Each provider
+ * has a calendar window limit (per minute, day or month) and a token bucket
+ * that spreads requests across the window. Window usage is persisted so a
+ * restart does not reset the count the API is keeping.
+ */
+export class QuotaManager {
+  private quotas = new Map<string, QuotaState>();
+  private persisted: PersistedUsage = {};
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly stateFile: string = QUOTA_STATE_FILE) {
+    try {
+      this.persisted = JSON.parse(fs.readFileSync(stateFile, 'utf8'));
+    } catch {
+      this.persisted = {};
+    }
+  }
+
+  // Registering again updates the policy but keeps the usage counted so far
+  register(provider: string, policy: QuotaPolicy): void {
+    const now = Date.now();
+    const existing = this.quotas.get(provider);
+    const burst = this.getBurst(policy);
+
+    if (existing) {
+      existing.policy = policy;
+      existing.tokens = Math.min(existing.tokens, burst);
+      return;
+    }
+
+    const windowStart = getWindowStart(now, policy.window);
+    const saved = this.persisted[provider];
+    this.quotas.set(provider, {
+      policy,
+      windowStart,
+      used: saved && saved.windowStart === windowStart ? saved.used : 0,
+      tokens: burst,
+      lastRefill: now
+    });
+  }
+
+  // Consume one request if both the window budget and the bucket allow it
+  tryAcquire(provider: string): boolean {
+    const quota = this.refresh(provider);
+    if (quota.used >= quota.policy.limit || quota.tokens < 1) return false;
+
+    quota.used++;
+    quota.tokens--;
+    this.scheduleSave();
+    return true;
+  }
+
+  /**
+   * Wait up to maxWaitMs for a request slot. Throws QuotaExceededError when the
+   * slot would come later, so callers never block until a daily reset.
+   */
+  async acquire(provider: string, maxWaitMs: number = 0): Promise<void> {
+    while (!this.tryAcquire(provider)) {
+      const retryAt = this.getRetryTime(provider);
+      const waitMs = retryAt - Date.now();
+      if (waitMs > maxWaitMs) {
+        throw new QuotaExceededError(provider, retryAt);
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.max(waitMs, 10)));
+    }
+  }
+
+  // When the next request would be allowed
+  getRetryTime(provider: string): number {
+    const quota = this.refresh(provider);
+    const now = Date.now();
+
+    if (quota.used >= quota.policy.limit) {
+      return getWindowEnd(quota.windowStart, quota.policy.window);
+    }
+    if (quota.tokens < 1) {
+      return now + (1 - quota.tokens) / this.getRefillRate(quota, now);
+    }
+    return now;
+  }
+
+  /**
+   * Delay until the next poll so the remaining budget lasts until the window
+   * resets. requestsPerPoll covers providers that make several calls per poll.
+   */
+  getPollInterval(provider: string, minIntervalMs: number, requestsPerPoll: number = 1): number {
+    const quota = this.refresh(provider);
+    const now = Date.now();
+    const windowEnd = getWindowEnd(quota.windowStart, quota.policy.window);
+    const remainingPolls = Math.floor((quota.policy.limit - quota.used) / Math.max(requestsPerPoll, 1));
+
+    if (remainingPolls <= 0) {
+      return Math.max(minIntervalMs, windowEnd - now);
+    }
+    return Math.max(minIntervalMs, (windowEnd - now) / remainingPolls);
+  }
+
+  getUsage(provider: string): QuotaUsage {
+    const quota = this.refresh(provider);
+    return {
+      provider,
+      used: quota.used,
+      limit: quota.policy.limit,
+      remaining: Math.max(0, quota.policy.limit - quota.used),
+      window: quota.policy.window,
+      windowStart: new Date(quota.windowStart).toISOString(),
+      resetTime: new Date(getWindowEnd(quota.windowStart, quota.policy.window)).toISOString()
+    };
+  }
+
+  getRateLimit(provider: string): ProviderStatus['rateLimit'] {
+    const usage = this.getUsage(provider);
+    return {
+      current: usage.used,
+      max: usage.limit,
+      resetTime: usage.resetTime,
+      window: usage.window
+    };
+  }
+
+  // Write pending usage immediately, e.g. on shutdown
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+
+  private refresh(provider: string): QuotaState {
+    const quota = this.quotas.get(provider);
+    if (!quota) {
+      throw new Error(`No request quota registered for ${provider}`);
+    }
+
+    const now = Date.now();
+    const windowStart = getWindowStart(now, quota.policy.window);
+    if (windowStart !== quota.windowStart) {
+      quota.windowStart = windowStart;
+      quota.used = 0;
+    }
+
+    const refill = (now - quota.lastRefill) * this.getRefillRate(quota, now);
+    quota.tokens = Math.min(this.getBurst(quota.policy), quota.tokens + refill);
+    quota.lastRefill = now;
+
+    return quota;
+  }
+
+  // Tokens per millisecond: what is left of the budget over what is left of the window
+  private getRefillRate(quota: QuotaState, now: number): number {
+    const remaining = Math.max(0, quota.policy.limit - quota.used);
+    const timeLeft = Math.max(1, getWindowEnd(quota.windowStart, quota.policy.window) - now);
+    return remaining / timeLeft;
+  }
+
+  private getBurst(policy: QuotaPolicy): number {
+    return policy.burst ?? (policy.window === 'minute' ? policy.limit : Math.min(policy.limit, 5));
+  }
+
+  // Usage changes on every request, so writes are batched
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+    this.saveTimer.unref();
+  }
+
+  private save() {
+    this.quotas.forEach((quota, provider) => {
+      this.persisted[provider] = { windowStart: quota.windowStart, used: quota.used };
+    });
+
+    try {
+      fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.persisted, null, 2));
+    } catch (error) {
+      console.error('Failed to persist request quota usage:', error);
+    }
+  }
+}
+
+export const quotaManager = new QuotaManager();
@@ -0,0 +1,284 @@
+import fs from 'fs';
+import path from 'path';
+import { ReplayState } from '@shared/schema.js';
+import { MarketDataProvider, MarketTick, ProviderStatus, Quote } from './market-data-provider.js';
+import { RecordedTick } from './tick-recorder.js';
+
+export type ReplaySpeed = number | 'max';
+
+interface ReplayTick {
+  time: number; // Market timestamp of the tick, epoch ms
+  tick: MarketTick;
+}
+
+/**
+ * Plays back a TickRecorder session as if it were a live feed. Ticks keep
+ * their recorded timestamps and order, and time advances on a virtual clock
+ * (exposed through now()) so candles close exactly where they did during the
+ * recording. At 'max' speed ticks are emitted in batches as fast as the event
+ * loop allows.
+ */
+export class ReplayProvider implements MarketDataProvider {
+  readonly id = 'replay';
+  readonly name = 'Replay';
+  // Pauses are deliberate, so a quiet replay never counts as a stale feed
+  readonly staleAfterMs = Number.POSITIVE_INFINITY;
+
+  private ticks: ReplayTick[] = [];
+  private file: string | null = null;
+  private cursor = 0;
+  private speed: ReplaySpeed;
+  private isRunning = false;
+  private playing = false;
+  private timer: NodeJS.Timeout | null = null;
+  private statusIntervalId: NodeJS.Timeout | null = null;
+
+  // Virtual time is clockBase plus wall time elapsed since wallBase, scaled by speed
+  private clockBase = 0;
+  private wallBase = 0;
+
+  private readonly maxBatchSize = 500;
+  private subscribedPairs: Set<string> | null = null; // null replays every recorded symbol
+  private lastTicks = new Map<string, MarketTick>();
+
+  private onMarketUpdateCallback?: (update: MarketTick) => void;
+  private onSystemStatusCallback?: (status: ProviderStatus) => void;
+
+  constructor(file?: string, speed: ReplaySpeed = 1) {
+    this.file = file ?? null;
+    this.speed = speed;
+  }
+
+  setCallbacks(
+    onMarketUpdate: (update: MarketTick) => void,
+    onSystemStatus: (status: ProviderStatus) => void
+  ) {
+    this.onMarketUpdateCallback = onMarketUpdate;
+    this.onSystemStatusCallback = onSystemStatus;
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+
+    if (this.file && this.ticks.length === 0) {
+      await this.load(this.file);
+    }
+
+    this.isRunning = true;
+    const speed = this.speed === 'max' ? 'max speed' : `${this.speed}x`;
+    console.log(`Replaying ${this.ticks.length} recorded ticks from ${this.file} at ${speed}`);
+
+    this.statusIntervalId = setInterval(() => this.sendSystemStatus(), 3000);
+    this.play();
+  }
+
+  async stop(): Promise<void> {
+    this.pause();
+    this.isRunning = false;
+    if (this.statusIntervalId) {
+      clearInterval(this.statusIntervalId);
+      this.statusIntervalId = null;
+    }
+  }
+
+  // Replaces the loaded recording and rewinds to its first tick
+  async load(file: string): Promise<void> {
+    const content = await fs.promises.readFile(file, 'utf8');
+    const ticks: ReplayTick[] = [];
+
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const entry = JSON.parse(line) as RecordedTick;
+        const time = Date.parse(entry.tick.timestamp);
+        if (!entry.tick?.symbol || !Number.isFinite(time)) throw new Error('missing symbol or timestamp');
+        ticks.push({ time, tick: entry.tick });
+      } catch (error) {
+        // A session cut short by a crash may end with a partial line
+        console.warn(`Skipping unreadable tick on line ${index + 1} of ${file}:`, (error as Error).message);
+      }
+    });
+
+    const wasPlaying = this.playing;
+    this.pause();
+
+    this.file = file;
+    this.ticks = ticks;
+    this.lastTicks.clear();
+    this.cursor = 0;
+    this.clockBase = ticks[0]?.time ?? 0;
+
+    if (wasPlaying) this.play();
+    this.sendSystemStatus();
+  }
+
+  play(): void {
+    if (!this.isRunning || this.playing) return;
+    this.playing = true;
+    this.wallBase = Date.now();
+    this.scheduleNext();
+    this.sendSystemStatus();
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.clockBase = this.now();
+    this.playing = false;
+    this.clearTimer();
+    this.sendSystemStatus();
+  }
+
+  // Jump to the first tick at or after the timestamp; earlier ticks are not re-emitted
+  seek(timestamp: number): void {
+    const index = this.ticks.findIndex(entry => entry.time >= timestamp);
+    this.cursor = index === -1 ? this.ticks.length : index;
+    this.clockBase = timestamp;
+    this.wallBase = Date.now();
+
+    if (this.playing) {
+      this.clearTimer();
+      this.scheduleNext();
+    }
+    this.sendSystemStatus();
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    if (speed !== 'max' && !(speed > 0)) {
+      throw new Error('Replay speed must be a positive number or "max"');
+    }
+
+    this.clockBase = this.now();
+    this.wallBase = Date.now();
+    this.speed = speed;
+
+    if (this.playing) {
+      this.clearTimer();
+      this.scheduleNext();
+    }
+    this.sendSystemStatus();
+  }
+
+  async subscribe(symbols: string[]): Promise<void> {
+    if (!this.subscribedPairs) this.subscribedPairs = new Set();
+    symbols.forEach(symbol => this.subscribedPairs!.add(symbol));
+  }
+
+  async unsubscribe(symbols: string[]): Promise<void> {
+    if (!this.subscribedPairs) {
+      this.subscribedPairs = new Set(this.getRecordedSymbols());
+    }
+    symbols.forEach(symbol => this.subscribedPairs!.delete(symbol));
+  }
+
+  getSubscriptions(): string[] {
+    return this.subscribedPairs ? Array.from(this.subscribedPairs) : this.getRecordedSymbols();
+  }
+
+  getQuotes(): Quote[] {
+    return Array.from(this.lastTicks.values()).map(tick => {
+      const bid = tick.bid ?? tick.price;
+      const ask = tick.ask ?? tick.price;
+      return {
+        symbol: tick.symbol,
+        bid,
+        ask,
+        spread: ask - bid,
+        timestamp: Date.parse(tick.timestamp)
+      };
+    });
+  }
+
+  isConnected(): boolean {
+    return this.isRunning;
+  }
+
+  now(): number {
+    if (!this.playing) return this.clockBase;
+    if (this.speed === 'max') return this.clockBase;
+    return this.clockBase + (Date.now() - this.wallBase) * this.speed;
+  }
+
+  getReplayState(): ReplayState {
+    const first = this.ticks[0];
+    const last = this.ticks[this.ticks.length - 1];
+    return {
+      file: this.file ? path.basename(this.file) : null,
+      playing: this.playing,
+      finished: this.ticks.length > 0 && this.cursor >= this.ticks.length,
+      speed: this.speed,
+      position: this.cursor,
+      totalTicks: this.ticks.length,
+      startTime: first ? new Date(first.time).toISOString() : null,
+      endTime: last ? new Date(last.time).toISOString() : null,
+      currentTime: this.ticks.length > 0 ? new Date(this.now()).toISOString() : null
+    };
+  }
+
+  private scheduleNext() {
+    if (!this.playing) return;
+
+    if (this.cursor >= this.ticks.length) {
+      this.pause();
+      console.log('Replay reached the end of the recording');
+      return;
+    }
+
+    if (this.speed === 'max') {
+      const batchEnd = Math.min(this.cursor + this.maxBatchSize, this.ticks.length);
+      while (this.cursor < batchEnd) {
+        this.clockBase = Math.max(this.clockBase, this.ticks[this.cursor].time);
+        this.emit(this.ticks[this.cursor++]);
+      }
+      this.timer = setTimeout(() => this.scheduleNext(), 0);
+      return;
+    }
+
+    const next = this.ticks[this.cursor];
+    const delay = Math.max(0, (next.time - this.now()) / this.speed);
+
+    this.timer = setTimeout(() => {
+      // Everything due by now goes out together, keeping the recorded order
+      const now = this.now();
+      while (this.cursor < this.ticks.length && this.ticks[this.cursor].time <= now) {
+        this.emit(this.ticks[this.cursor++]);
+      }
+      this.scheduleNext();
+    }, delay);
+  }
+
+  private emit(entry: ReplayTick) {
+    const { tick } = entry;
+    if (this.subscribedPairs && !this.subscribedPairs.has(tick.symbol)) return;
+
+    this.lastTicks.set(tick.symbol, tick);
+    this.onMarketUpdateCallback?.(tick);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private getRecordedSymbols(): string[] {
+    return Array.from(new Set(this.ticks.map(entry => entry.tick.symbol)));
+  }
+
+  private sendSystemStatus() {
+    if (!this.isRunning) return;
+    this.onSystemStatusCallback?.(this.getConnectionStatus());
+  }
+
+  getConnectionStatus(): ProviderStatus {
+    return {
+      connected: this.isRunning,
+      mode: 'replay',
+      provider: this.name,
+      activePairs: this.getSubscriptions().length,
+      rateLimit: { current: 0, max: 0 },
+      lastUpdate: new Date().toISOString(),
+      replay: this.getReplayState()
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { SignalEngine, SignalEngineConfig, TARGET_LEVEL_RULE } from './signal-engine.js';
+import { compileRuleSet, parseRuleSet, CompiledRuleSet, defaultRuleSet } from './signal-rules.js';
+import { ForexPair, StrategyProfile, ProfileAssignment, RuleSet } from '@shared/schema.js';
+
+// Weighted rule names that match no rule the profile runs with, so a typo does not silently do nothing
+export function findUnknownRuleWeights(ruleWeights: Record<string, number>, ruleSet: RuleSet | null = null): string[] {
+  const rules = ruleSet ?? defaultRuleSet;
+  const names = new Set(rules.bullish.concat(rules.bearish).map(rule => rule.name).concat(TARGET_LEVEL_RULE));
+  return Object.keys(ruleWeights).filter(name => !names.has(name));
+}
+
+/**
+ * Owns one SignalEngine (and therefore one DivergenceDetector) per symbol and
+ * timeframe, so indicator and price histories of different pairs never mix.
+ * Engines are created lazily on first use and evicted when their pair is
+ * deactivated or its strategy profile changes.
+ */
+export class SignalEngineManager {
+  private engines = new Map<string, SignalEngine>();
+  private activePairs = new Map<string, ForexPair>();
+  private profiles = new Map<string, StrategyProfile>();
+  private assignments = new Map<string, string>(); // symbol:timeframe -> profile id
+
+  /**
+   * Replace the set of active pairs, evicting engines for any pair that is no
+   * longer active. Returns the symbols that were evicted.
+   */
+  setActivePairs(pairs: ForexPair[]): string[] {
+    const nextPairs = new Map(pairs.filter(p => p.isActive).map(p => [p.symbol, p]));
+    const evicted = Array.from(this.activePairs.keys()).filter(symbol => !nextPairs.has(symbol));
+
+    this.activePairs = nextPairs;
+    evicted.forEach(symbol => this.evict(symbol));
+
+    return evicted;
+  }
+
+  /**
+   * Replace the profiles and their pair/timeframe assignments. Engines whose
+   * profile was reassigned, edited or deleted are evicted and rebuilt with the
+   * new parameters on the next candle.
+   */
+  setProfiles(profiles: StrategyProfile[], assignments: ProfileAssignment[]): void {
+    const previous = new Map(Array.from(this.engines.keys()).map(key => [key, this.getProfileVersion(key)]));
+
+    this.profiles = new Map(profiles.map(profile => [profile.id, profile]));
+    this.assignments = new Map(assignments.map(assignment => [
+      this.getKey(assignment.pair, assignment.timeframe),
+      assignment.profileId
+    ]));
+
+    previous.forEach((version, key) => {
+      if (this.getProfileVersion(key) !== version) this.engines.delete(key);
+    });
+  }
+
+  isActive(symbol: string): boolean {
+    return this.activePairs.has(symbol);
+  }
+
+  // A pair trades its configured timeframe plus every timeframe a profile is assigned to
+  isTraded(symbol: string, timeframe: string): boolean {
+    const pair = this.activePairs.get(symbol);
+    if (!pair) return false;
+    return pair.timeframe === timeframe || this.assignments.has(this.getKey(symbol, timeframe));
+  }
+
+  getActiveSymbols(): string[] {
+    return Array.from(this.activePairs.keys());
+  }
+
+  /**
+   * Get the engine for a pair, creating it if needed. Defaults to the
+   * timeframe configured on the pair. Returns null for inactive pairs.
+   */
+  getEngine(symbol: string, timeframe?: string): SignalEngine | null {
+    const pair = this.activePairs.get(symbol);
+    if (!pair) return null;
+
+    const resolvedTimeframe = timeframe || pair.timeframe;
+    const key = this.getKey(symbol, resolvedTimeframe);
+
+    let engine = this.engines.get(key);
+    if (!engine) {
+      engine = new SignalEngine(resolvedTimeframe, this.getEngineConfig(key));
+      this.engines.set(key, engine);
+    }
+
+    return engine;
+  }
+
+  // Drop every timeframe's engine for a symbol
+  evict(symbol: string): void {
+    const prefix = `${symbol}:`;
+    Array.from(this.engines.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.engines.delete(key));
+  }
+
+  getEngineCount(): number {
+    return this.engines.size;
+  }
+
+  // Unassigned pairs, and those whose profile is missing, run with the built-in defaults
+  private getProfile(key: string): StrategyProfile | undefined {
+    const profileId = this.assignments.get(key);
+    return profileId ? this.profiles.get(profileId) : undefined;
+  }
+
+  private getProfileVersion(key: string): string {
+    const profile = this.getProfile(key);
+    return profile ? `${profile.id}@${new Date(profile.updatedAt).getTime()}` : 'default';
+  }
+
+  private getEngineConfig(key: string): SignalEngineConfig {
+    const profile = this.getProfile(key);
+    if (!profile) return {};
+
+    return {
+      profileId: profile.id,
+      indicatorSettings: profile.indicatorSettings,
+      stopSettings: profile.stopSettings,
+      rules: this.getRules(profile),
+      ruleWeights: profile.ruleWeights,
+      minConfidence: profile.minConfidence
+    };
+  }
+
+  // Rule sets are validated when saved; one that no longer parses falls back to the defaults
+  private getRules(profile: StrategyProfile): CompiledRuleSet | undefined {
+    if (!profile.ruleSet) return undefined;
+    try {
+      return compileRuleSet(parseRuleSet(profile.ruleSet));
+    } catch (error) {
+      console.error(`Ignoring invalid rule set of profile ${profile.name}:`, (error as Error).message);
+      return undefined;
+    }
+  }
+
+  private getKey(symbol: string, timeframe: string): string {
+    return `${symbol}:${timeframe}`;
+  }
+}
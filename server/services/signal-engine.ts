@@ -1,111 +1,75 @@
-import { TechnicalIndicators, IndicatorResult } from './indicators.js';
+import { StreamingIndicators, IndicatorResult, IndicatorSettings, OHLCBar, DEFAULT_INDICATOR_SETTINGS } from './indicators.js';
 import { DivergenceDetector, DivergenceCandidate } from './divergence-detector.js';
+import { placeStops, StopSettings, DEFAULT_STOP_SETTINGS } from './stop-placement.js';
+import { getPipSize } from './symbol-mapping.js';
+import { ConfirmationRule, CompiledRuleSet, defaultRules } from './signal-rules.js';
+import { PairLevels, findLevelsBeforeTarget } from './levels.js';
 import { TradingSignal, InsertTradingSignal } from '@shared/schema.js';
 
-export interface ConfirmationRule {
-  name: string;
-  check: (indicators: IndicatorResult, history: IndicatorResult[]) => boolean;
-  weight: number;
+// Parameters from a strategy profile; anything left out keeps the built-in default
+export interface SignalEngineConfig {
+  profileId?: string | null;
+  indicatorSettings?: Partial<IndicatorSettings>;
+  stopSettings?: Partial<StopSettings>;
+  rules?: CompiledRuleSet; // Replaces the default confirmation rules
+  ruleWeights?: Record<string, number>; // Rule name -> weight; 0 disables the rule
+  minConfidence?: number;
 }
 
+// Penalty rule, weighted like the confirmation rules: its weight is taken off the confirmation score
+export const TARGET_LEVEL_RULE = 'Target Beyond Strong Level';
+const DEFAULT_TARGET_LEVEL_WEIGHT = 0.3;
+
 export class SignalEngine {
   private divergenceDetector = new DivergenceDetector();
+  private indicators: StreamingIndicators;
   private indicatorHistory: IndicatorResult[] = [];
+  private recentBars: OHLCBar[] = []; // Swing highs/lows for stop placement
+  private stopSettings: StopSettings;
+  private rules: CompiledRuleSet;
+  private ruleWeights: Record<string, number>;
   private readonly maxHistoryLength = 50;
-  private readonly minConfidenceThreshold = 0.6;
+  private readonly minConfidenceThreshold: number;
+  private readonly minBarsForSignal: number;
+  readonly profileId: string | null;
   
-  private bullishConfirmationRules: ConfirmationRule[] = [
-    {
-      name: 'MACD Histogram Rising',
-      check: (current, history) => {
-        if (history.length < 3) return false;
-        const recent = history.slice(-3);
-        return recent.every((h, i) => i === 0 || h.macd.histogram > recent[i-1].macd.histogram);
-      },
-      weight: 0.3
-    },
-    {
-      name: 'EMA Fast Above Slow',
-      check: (current) => current.ema.fast > current.ema.slow,
-      weight: 0.25
-    },
-    {
-      name: 'RSI Oversold Recovery',
-      check: (current, history) => {
-        if (history.length < 2) return false;
-        const prev = history[history.length - 1];
-        return prev.rsi < 30 && current.rsi > 30;
-      },
-      weight: 0.2
-    },
-    {
-      name: 'ADX Strong Trend',
-      check: (current) => current.adx > 25,
-      weight: 0.15
-    },
-    {
-      name: 'Stochastic Bullish',
-      check: (current) => current.stochastic.k > current.stochastic.d && current.stochastic.k < 80,
-      weight: 0.1
-    }
-  ];
+  constructor(readonly timeframe: string = '1m', config: SignalEngineConfig = {}) {
+    const macd = config.indicatorSettings?.macd ?? DEFAULT_INDICATOR_SETTINGS.macd;
+    this.indicators = new StreamingIndicators(config.indicatorSettings);
+    this.stopSettings = { ...DEFAULT_STOP_SETTINGS, ...config.stopSettings };
+    this.rules = config.rules ?? defaultRules;
+    this.ruleWeights = config.ruleWeights ?? {};
+    this.minConfidenceThreshold = config.minConfidence ?? 0.6;
+    this.minBarsForSignal = macd.slow + macd.signal; // Enough for the MACD signal line (slow + signal - 1 bars) to settle
+    this.profileId = config.profileId ?? null;
+  }
   
-  private bearishConfirmationRules: ConfirmationRule[] = [
-    {
-      name: 'MACD Histogram Falling',
-      check: (current, history) => {
-        if (history.length < 3) return false;
-        const recent = history.slice(-3);
-        return recent.every((h, i) => i === 0 || h.macd.histogram < recent[i-1].macd.histogram);
-      },
-      weight: 0.3
-    },
-    {
-      name: 'EMA Fast Below Slow',
-      check: (current) => current.ema.fast < current.ema.slow,
-      weight: 0.25
-    },
-    {
-      name: 'RSI Overbought Decline',
-      check: (current, history) => {
-        if (history.length < 2) return false;
-        const prev = history[history.length - 1];
-        return prev.rsi > 70 && current.rsi < 70;
-      },
-      weight: 0.2
-    },
-    {
-      name: 'ADX Strong Trend',
-      check: (current) => current.adx > 25,
-      weight: 0.15
-    },
-    {
-      name: 'Stochastic Bearish',
-      check: (current) => current.stochastic.k < current.stochastic.d && current.stochastic.k > 20,
-      weight: 0.1
+  // Feed every closed bar in order; returns null while the indicators are warming up
+  processMarketData(symbol: string, bar: OHLCBar, levels: PairLevels | null = null): InsertTradingSignal | null {
+    // Indicators update incrementally, so a bar costs the same however long the history is
+    const indicators = this.indicators.update(bar);
+    this.recentBars.push(bar);
+    if (this.recentBars.length > this.maxHistoryLength) {
+      this.recentBars = this.recentBars.slice(-this.maxHistoryLength);
     }
-  ];
-  
-  processMarketData(
-    symbol: string,
-    price: number,
-    highs: number[],
-    lows: number[],
-    closes: number[]
-  ): InsertTradingSignal | null {
     
-    // Calculate indicators
-    const indicators = TechnicalIndicators.calculateAllIndicators(closes, highs, lows, closes);
+    // Add data point for divergence detection
+    this.divergenceDetector.addDataPoint(bar.close, indicators);
+    
+    const signal = this.indicators.getBarCount() >= this.minBarsForSignal
+      ? this.evaluate(symbol, bar.close, indicators, levels)
+      : null;
     
-    // Add to history
+    // The current bar becomes history for the next one
     this.indicatorHistory.push(indicators);
     if (this.indicatorHistory.length > this.maxHistoryLength) {
       this.indicatorHistory = this.indicatorHistory.slice(-this.maxHistoryLength);
     }
     
-    // Add data point for divergence detection
-    this.divergenceDetector.addDataPoint(price, indicators);
-    
+    return signal;
+  }
+  
+  private evaluate(symbol: string, price: number, indicators: IndicatorResult, levels: PairLevels | null): InsertTradingSignal | null {
     // Detect divergences
     const divergences = this.divergenceDetector.detectDivergences();
     
@@ -122,9 +86,9 @@ export class SignalEngine {
     );
     
     if (primaryDivergence.type === 'bullish') {
-      return this.generateBuySignal(symbol, price, indicators, primaryDivergence);
+      return this.generateBuySignal(symbol, price, indicators, primaryDivergence, levels);
     } else if (primaryDivergence.type === 'bearish') {
-      return this.generateSellSignal(symbol, price, indicators, primaryDivergence);
+      return this.generateSellSignal(symbol, price, indicators, primaryDivergence, levels);
     }
     
     return this.generateHoldSignal(symbol, price, indicators);
@@ -134,37 +98,46 @@ export class SignalEngine {
     symbol: string,
     price: number,
     indicators: IndicatorResult,
-    divergence: DivergenceCandidate
+    divergence: DivergenceCandidate,
+    levels: PairLevels | null
   ): InsertTradingSignal | null {
     
-    const confirmations = this.checkConfirmations(indicators, this.bullishConfirmationRules);
+    const confirmations = this.checkConfirmations(indicators, this.rules.bullish);
     
     if (confirmations.count < 2) {
       return this.generateHoldSignal(symbol, price, indicators, `Bullish divergence detected but insufficient confirmation (${confirmations.count}/2)`);
     }
     
-    const confidence = Math.min(0.95, 0.6 + (confirmations.score * 0.35) + (divergence.strength * 0.2));
+    let confidence = Math.min(0.95, 0.6 + (confirmations.score * 0.35) + (divergence.strength * 0.2));
     
     if (confidence < this.minConfidenceThreshold) {
       return null;
     }
     
-    const stopLoss = price * 0.998; // 0.2% stop loss
-    const takeProfit = price * 1.004; // 0.4% take profit
+    const stops = placeStops('BUY', price, indicators.atr, this.recentBars, getPipSize(symbol), this.stopSettings);
+    if (!stops) {
+      return this.generateHoldSignal(symbol, price, indicators, 'Bullish setup but no volatility to place a stop from');
+    }
+    
+    const penalty = this.checkTargetLevels('BUY', price, stops.takeProfit, levels, symbol);
+    confidence -= penalty.weight * 0.35;
+    if (confidence < this.minConfidenceThreshold) {
+      return null;
+    }
     
     return {
       pair: symbol,
-      timeframe: '1m',
+      timeframe: this.timeframe,
       signal: 'BUY',
       confidence,
-      reason: `${divergence.description} + ${confirmations.reasons.join(' + ')} (${confirmations.count}/2)`,
+      reason: `${divergence.description} + ${confirmations.reasons.join(' + ')} (${confirmations.count}/2)${penalty.reason}`,
       entryPrice: price,
       entryType: 'market',
-      stopLoss,
-      takeProfit,
+      ...stops,
       predictionHorizonMins: 5,
-      expectedMovePct: 0.3,
+      expectedMovePct: ((stops.takeProfit - price) / price) * 100,
       indicatorValues: indicators,
+      profileId: this.profileId,
       backtestStats: {
         winrate: 0.67,
         avgWinPct: 0.4,
@@ -177,37 +150,46 @@ export class SignalEngine {
     symbol: string,
     price: number,
     indicators: IndicatorResult,
-    divergence: DivergenceCandidate
+    divergence: DivergenceCandidate,
+    levels: PairLevels | null
   ): InsertTradingSignal | null {
     
-    const confirmations = this.checkConfirmations(indicators, this.bearishConfirmationRules);
+    const confirmations = this.checkConfirmations(indicators, this.rules.bearish);
     
     if (confirmations.count < 2) {
       return this.generateHoldSignal(symbol, price, indicators, `Bearish divergence detected but insufficient confirmation (${confirmations.count}/2)`);
     }
     
-    const confidence = Math.min(0.95, 0.6 + (confirmations.score * 0.35) + (divergence.strength * 0.2));
+    let confidence = Math.min(0.95, 0.6 + (confirmations.score * 0.35) + (divergence.strength * 0.2));
     
     if (confidence < this.minConfidenceThreshold) {
       return null;
     }
     
-    const stopLoss = price * 1.002; // 0.2% stop loss
-    const takeProfit = price * 0.996; // 0.4% take profit
+    const stops = placeStops('SELL', price, indicators.atr, this.recentBars, getPipSize(symbol), this.stopSettings);
+    if (!stops) {
+      return this.generateHoldSignal(symbol, price, indicators, 'Bearish setup but no volatility to place a stop from');
+    }
+    
+    const penalty = this.checkTargetLevels('SELL', price, stops.takeProfit, levels, symbol);
+    confidence -= penalty.weight * 0.35;
+    if (confidence < this.minConfidenceThreshold) {
+      return null;
+    }
     
     return {
       pair: symbol,
-      timeframe: '1m',
+      timeframe: this.timeframe,
       signal: 'SELL',
       confidence,
-      reason: `${divergence.description} + ${confirmations.reasons.join(' + ')} (${confirmations.count}/2)`,
+      reason: `${divergence.description} + ${confirmations.reasons.join(' + ')} (${confirmations.count}/2)${penalty.reason}`,
       entryPrice: price,
       entryType: 'market',
-      stopLoss,
-      takeProfit,
+      ...stops,
       predictionHorizonMins: 5,
-      expectedMovePct: -0.3,
+      expectedMovePct: ((stops.takeProfit - price) / price) * 100,
       indicatorValues: indicators,
+      profileId: this.profileId,
       backtestStats: {
         winrate: 0.64,
         avgWinPct: 0.4,
@@ -224,7 +206,7 @@ export class SignalEngine {
   ): InsertTradingSignal {
     return {
       pair: symbol,
-      timeframe: '1m',
+      timeframe: this.timeframe,
       signal: 'HOLD',
       confidence: 0.45,
       reason: reason || 'Mixed signals - insufficient confirmation for trade entry',
@@ -232,9 +214,13 @@ export class SignalEngine {
       entryType: 'market',
       stopLoss: null,
       takeProfit: null,
+      stopLossPips: null,
+      takeProfitPips: null,
+      riskRewardRatio: null,
       predictionHorizonMins: 1,
       expectedMovePct: 0,
       indicatorValues: indicators,
+      profileId: this.profileId,
       backtestStats: {
         winrate: 0.5,
         avgWinPct: 0,
@@ -243,15 +229,26 @@ export class SignalEngine {
     };
   }
   
+  // Targets past a strong level ask price to break through it first
+  private checkTargetLevels(side: 'BUY' | 'SELL', price: number, takeProfit: number, levels: PairLevels | null, symbol: string) {
+    const weight = this.ruleWeights[TARGET_LEVEL_RULE] ?? DEFAULT_TARGET_LEVEL_WEIGHT;
+    const blocking = weight > 0 && levels ? findLevelsBeforeTarget(side, price, takeProfit, levels) : [];
+    if (blocking.length === 0) return { weight: 0, reason: '' };
+    
+    const digits = getPipSize(symbol) === 0.01 ? 3 : 5;
+    return { weight, reason: ` - ${TARGET_LEVEL_RULE} (${blocking[0].toFixed(digits)})` };
+  }
+  
   private checkConfirmations(indicators: IndicatorResult, rules: ConfirmationRule[]) {
     let count = 0;
     let score = 0;
     const reasons: string[] = [];
     
     for (const rule of rules) {
-      if (rule.check(indicators, this.indicatorHistory)) {
+      const weight = this.ruleWeights[rule.name] ?? rule.weight;
+      if (weight > 0 && rule.check(indicators, this.indicatorHistory)) {
         count++;
-        score += rule.weight;
+        score += weight;
         reasons.push(rule.name);
       }
     }
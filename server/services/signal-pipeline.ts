@@ -0,0 +1,111 @@
+import { randomUUID } from 'crypto';
+import { SignalEngineManager } from './signal-engine-manager.js';
+import { MarketCalendar, marketCalendar } from './market-calendar.js';
+import { TrendFilter, TrendFilterSettings } from './trend-filter.js';
+import { LevelsService, PairLevels } from './levels.js';
+import { TradingSignal, Candle, ForexPair, StrategyProfile, ProfileAssignment } from '@shared/schema.js';
+
+/**
+ * Routes closed OHLC candles built from whichever data provider is active
+ * through the SignalEngine, so every broadcast signal is derived from
+ * indicator and divergence analysis rather than generated by the provider.
+ */
+export class SignalPipeline {
+  private engineManager = new SignalEngineManager();
+  private trendFilter: TrendFilter;
+  private levels = new LevelsService();
+  private lastSignalType = new Map<string, string>(); // symbol:timeframe -> last published signal
+
+  private onSignalCallback?: (signal: TradingSignal) => void;
+
+  constructor(
+    private readonly calendar: MarketCalendar = marketCalendar,
+    trendFilterSettings: Partial<TrendFilterSettings> = {}
+  ) {
+    this.trendFilter = new TrendFilter(trendFilterSettings);
+  }
+
+  setCallbacks(onSignal: (signal: TradingSignal) => void) {
+    this.onSignalCallback = onSignal;
+  }
+
+  // Candles for pairs outside this set are ignored; deactivated pairs lose all their state
+  setActivePairs(pairs: ForexPair[]): void {
+    const evicted = this.engineManager.setActivePairs(pairs);
+    evicted.forEach(symbol => this.reset(symbol));
+  }
+
+  // Forget a pair's engines, trends, levels and last signal; an active pair warms up again from its next candle
+  reset(symbol: string): void {
+    this.engineManager.evict(symbol);
+    Array.from(this.lastSignalType.keys())
+      .filter(key => key.startsWith(`${symbol}:`))
+      .forEach(key => this.lastSignalType.delete(key));
+    this.trendFilter.evict(symbol);
+    this.levels.evict(symbol);
+  }
+
+  // Engines pick up profile changes from their next candle, after warming up again
+  setProfiles(profiles: StrategyProfile[], assignments: ProfileAssignment[]): void {
+    this.engineManager.setProfiles(profiles, assignments);
+    // A timeframe that is no longer traded starts afresh if it is assigned again
+    Array.from(this.lastSignalType.keys())
+      .filter(key => {
+        const [symbol, timeframe] = key.split(':');
+        return !this.engineManager.isTraded(symbol, timeframe);
+      })
+      .forEach(key => this.lastSignalType.delete(key));
+  }
+
+  // Null until the pair has closed a candle on the levels timeframe
+  getLevels(symbol: string, price?: number): PairLevels | null {
+    return this.levels.getLevels(symbol, price);
+  }
+
+  getLevelsTimeframe() {
+    return this.levels.getTimeframe();
+  }
+
+  processCandle(candle: Candle): void {
+    if (!this.engineManager.isActive(candle.symbol)) return;
+
+    // Bars from a closed market (weekend quotes, holiday noise) neither build history nor produce signals
+    if (!this.calendar.isOpen(candle.openTime)) return;
+
+    // Every timeframe feeds the trend filter and the levels; the pair's own timeframe and those with an assigned profile are traded
+    this.trendFilter.update(candle);
+    this.levels.update(candle);
+    if (!this.engineManager.isTraded(candle.symbol, candle.timeframe)) return;
+    const engine = this.engineManager.getEngine(candle.symbol, candle.timeframe);
+    if (!engine) return;
+
+    const analysis = engine.processMarketData(candle.symbol, candle, this.levels.getLevels(candle.symbol, candle.close));
+    if (!analysis) return;
+    const result = this.trendFilter.apply(analysis, candle.symbol);
+
+    // Only publish when the recommendation for a pair and timeframe changes; otherwise every bar repeats it
+    const signalKey = `${candle.symbol}:${candle.timeframe}`;
+    if (this.lastSignalType.get(signalKey) === result.signal) return;
+    this.lastSignalType.set(signalKey, result.signal);
+
+    const signal: TradingSignal = {
+      entryType: 'market',
+      stopLoss: null,
+      takeProfit: null,
+      stopLossPips: null,
+      takeProfitPips: null,
+      riskRewardRatio: null,
+      profileId: null,
+      predictionHorizonMins: 5,
+      expectedMovePct: null,
+      indicatorValues: null,
+      backtestStats: null,
+      ...result,
+      session: this.calendar.getSessionLabel(candle.openTime),
+      id: randomUUID(),
+      timestamp: new Date(candle.closeTime)
+    };
+
+    this.onSignalCallback?.(signal);
+  }
+}
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { fromZodError } from 'zod-validation-error';
+import { IndicatorResult } from './indicators.js';
+import { ruleSetSchema, RuleSet, RuleDefinition, RuleCondition, RuleOperand, IndicatorPath } from '@shared/schema.js';
+
+export interface ConfirmationRule {
+  name: string;
+  // history holds the indicator values of the preceding bars, oldest first, excluding the current one
+  check: (indicators: IndicatorResult, history: IndicatorResult[]) => boolean;
+  weight: number;
+}
+
+export interface CompiledRuleSet {
+  bullish: ConfirmationRule[];
+  bearish: ConfirmationRule[];
+}
+
+export const SIGNAL_RULES_FILE = process.env.SIGNAL_RULES_FILE
+  || path.resolve('server', 'config', 'signal-rules.json');
+
+// Bars are addressed by how many bars before the current one they closed; undefined when the history is too short
+type BarAccess = (barsAgo: number) => IndicatorResult | undefined;
+type CompiledOperand = (bars: BarAccess, offset: number) => number | string | boolean | undefined;
+type CompiledCondition = (bars: BarAccess, offset: number) => boolean;
+
+function compilePath(indicatorPath: IndicatorPath): (bar: IndicatorResult) => number | string | boolean {
+  const [group, field] = indicatorPath.split('.');
+  if (!field) return bar => bar[group as keyof IndicatorResult] as number;
+  return bar => (bar[group as keyof IndicatorResult] as unknown as Record<string, number | string | boolean>)[field];
+}
+
+function compileOperand(operand: RuleOperand): CompiledOperand {
+  if (typeof operand === 'number') return () => operand;
+  if (typeof operand === 'object' && 'value' in operand) {
+    const value = operand.value;
+    return () => value;
+  }
+
+  const { path: indicatorPath, barsAgo } = typeof operand === 'string' ? { path: operand, barsAgo: 0 } : operand;
+  const read = compilePath(indicatorPath);
+  return (bars, offset) => {
+    const bar = bars(offset + barsAgo);
+    return bar ? read(bar) : undefined;
+  };
+}
+
+function compare(left: number | string | boolean, op: string, right: number | string | boolean): boolean {
+  switch (op) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '==': return left === right;
+    default: return left !== right;
+  }
+}
+
+// Conditions that read a bar beyond the available history are false
+function compileCondition(condition: RuleCondition): CompiledCondition {
+  switch (condition.type) {
+    case 'compare': {
+      const left = compileOperand(condition.left);
+      const right = compileOperand(condition.right);
+      return (bars, offset) => {
+        const l = left(bars, offset);
+        const r = right(bars, offset);
+        return l !== undefined && r !== undefined && compare(l, condition.op, r);
+      };
+    }
+    case 'between': {
+      const value = compileOperand(condition.value);
+      const min = compileOperand(condition.min);
+      const max = compileOperand(condition.max);
+      return (bars, offset) => {
+        const v = value(bars, offset);
+        const low = min(bars, offset);
+        const high = max(bars, offset);
+        return v !== undefined && low !== undefined && high !== undefined && v >= low && v <= high;
+      };
+    }
+    case 'crossAbove':
+    case 'crossBelow': {
+      // The previous bar on or beyond the line, the current bar strictly across it
+      const before = compileCondition({ type: 'compare', left: condition.left, op: condition.type === 'crossAbove' ? '<=' : '>=', right: condition.right });
+      const after = compileCondition({ type: 'compare', left: condition.left, op: condition.type === 'crossAbove' ? '>' : '<', right: condition.right });
+      return (bars, offset) => before(bars, offset + 1) && after(bars, offset);
+    }
+    case 'rising':
+    case 'falling': {
+      // Each of the last `bars` bars strictly beyond the one before it
+      const value = compileOperand(condition.value);
+      const op = condition.type === 'rising' ? '>' : '<';
+      return (bars, offset) => {
+        for (let i = 0; i < condition.bars; i++) {
+          const current = value(bars, offset + i);
+          const previous = value(bars, offset + i + 1);
+          if (current === undefined || previous === undefined || !compare(current, op, previous)) return false;
+        }
+        return true;
+      };
+    }
+    case 'all': {
+      const conditions = condition.conditions.map(compileCondition);
+      return (bars, offset) => conditions.every(check => check(bars, offset));
+    }
+    case 'any': {
+      const conditions = condition.conditions.map(compileCondition);
+      return (bars, offset) => conditions.some(check => check(bars, offset));
+    }
+    case 'not': {
+      const inner = compileCondition(condition.condition);
+      return (bars, offset) => !inner(bars, offset);
+    }
+    case 'pattern': {
+      const barsAgo = condition.barsAgo ?? 0;
+      return (bars, offset) => bars(offset + barsAgo)?.patterns[condition.pattern] === true;
+    }
+  }
+}
+
+export function compileRule(definition: RuleDefinition): ConfirmationRule {
+  const when = compileCondition(definition.when);
+  return {
+    name: definition.name,
+    weight: definition.weight,
+    check: (current, history) => when(barsAgo => barsAgo === 0 ? current : history[history.length - barsAgo], 0)
+  };
+}
+
+export function compileRuleSet(ruleSet: RuleSet): CompiledRuleSet {
+  return {
+    bullish: ruleSet.bullish.map(compileRule),
+    bearish: ruleSet.bearish.map(compileRule)
+  };
+}
+
+// Validates untrusted JSON, e.g. a request body or a rules file
+export function parseRuleSet(input: unknown): RuleSet {
+  const parsed = ruleSetSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new Error(fromZodError(parsed.error).message);
+  }
+  return parsed.data;
+}
+
+// Unlike the holiday calendar there is no safe fallback: without rules the engine never confirms a trade
+export function loadRuleSet(file: string = SIGNAL_RULES_FILE): RuleSet {
+  try {
+    return parseRuleSet(JSON.parse(fs.readFileSync(file, 'utf8')));
+  } catch (error) {
+    throw new Error(`Invalid signal rules in ${file}: ${(error as Error).message}`);
+  }
+}
+
+export const defaultRuleSet = loadRuleSet();
+export const defaultRules = compileRuleSet(defaultRuleSet);
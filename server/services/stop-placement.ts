@@ -0,0 +1,107 @@
+import { OHLCBar } from './indicators.js';
+
+export interface StopSettings {
+  stopAtrMultiple: number; // Stop distance from entry, in ATRs
+  targetAtrMultiple: number; // Target distance from entry, in ATRs
+  snapToSwings: boolean;
+  swingStrength: number; // Bars on each side a swing high/low must exceed
+  maxSnapAtr: number; // Only snap to swings within this many ATRs of the ATR level
+  swingBufferAtr: number; // Stops sit beyond the swing, targets short of it, by this many ATRs
+}
+
+export const DEFAULT_STOP_SETTINGS: StopSettings = {
+  stopAtrMultiple: 1.5,
+  targetAtrMultiple: 3,
+  snapToSwings: true,
+  swingStrength: 2,
+  maxSnapAtr: 0.5,
+  swingBufferAtr: 0.1
+};
+
+export interface StopPlacement {
+  stopLoss: number;
+  takeProfit: number;
+  stopLossPips: number;
+  takeProfitPips: number;
+  riskRewardRatio: number;
+}
+
+export interface SwingPoints {
+  highs: number[];
+  lows: number[];
+}
+
+// Bars whose high (low) is strictly above (below) the `strength` bars on either side
+export function findSwingPoints(bars: OHLCBar[], strength: number): SwingPoints {
+  const highs: number[] = [];
+  const lows: number[] = [];
+
+  for (let i = strength; i < bars.length - strength; i++) {
+    const neighbours = bars.slice(i - strength, i).concat(bars.slice(i + 1, i + strength + 1));
+    if (neighbours.every(bar => bar.high < bars[i].high)) highs.push(bars[i].high);
+    if (neighbours.every(bar => bar.low > bars[i].low)) lows.push(bars[i].low);
+  }
+
+  return { highs, lows };
+}
+
+// The level closest to target that is within maxDistance of it and on the correct side of entry
+function nearestLevel(levels: number[], target: number, maxDistance: number, accept: (level: number) => boolean): number | null {
+  let nearest: number | null = null;
+  levels.forEach(level => {
+    if (!accept(level) || Math.abs(level - target) > maxDistance) return;
+    if (nearest === null || Math.abs(level - target) < Math.abs(nearest - target)) nearest = level;
+  });
+  return nearest;
+}
+
+/**
+ * Stop and target for a market entry, placed at ATR multiples from the entry
+ * so they scale with the pair's current volatility. With snapping enabled, a
+ * stop moves just beyond a nearby swing low (BUY) or high (SELL) and a target
+ * just short of the swing on the other side, where price is likely to react.
+ * Returns null when there is no volatility to size the stop from.
+ */
+export function placeStops(
+  side: 'BUY' | 'SELL',
+  entry: number,
+  atr: number,
+  bars: OHLCBar[],
+  pipSize: number,
+  settings: StopSettings = DEFAULT_STOP_SETTINGS
+): StopPlacement | null {
+  if (!(atr > 0)) return null;
+
+  const direction = side === 'BUY' ? 1 : -1;
+  let stopLoss = entry - direction * settings.stopAtrMultiple * atr;
+  let takeProfit = entry + direction * settings.targetAtrMultiple * atr;
+
+  if (settings.snapToSwings) {
+    const swings = findSwingPoints(bars, settings.swingStrength);
+    const maxDistance = settings.maxSnapAtr * atr;
+    const buffer = settings.swingBufferAtr * atr;
+    const isBelow = (level: number) => level < entry - buffer;
+    const isAbove = (level: number) => level > entry + buffer;
+
+    const stopSwing = side === 'BUY'
+      ? nearestLevel(swings.lows, stopLoss, maxDistance, isBelow)
+      : nearestLevel(swings.highs, stopLoss, maxDistance, isAbove);
+    if (stopSwing !== null) stopLoss = stopSwing - direction * buffer;
+
+    const targetSwing = side === 'BUY'
+      ? nearestLevel(swings.highs, takeProfit, maxDistance, isAbove)
+      : nearestLevel(swings.lows, takeProfit, maxDistance, isBelow);
+    if (targetSwing !== null) takeProfit = targetSwing - direction * buffer;
+  }
+
+  const risk = Math.abs(entry - stopLoss);
+  const reward = Math.abs(takeProfit - entry);
+
+  return {
+    stopLoss,
+    takeProfit,
+    stopLossPips: Math.round((risk / pipSize) * 10) / 10,
+    takeProfitPips: Math.round((reward / pipSize) * 10) / 10,
+    riskRewardRatio: Math.round((reward / risk) * 100) / 100
+  };
+}
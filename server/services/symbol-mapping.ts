@@ -0,0 +1,34 @@
+// Pairs are stored in the standard `BASE/QUOTE` format; provider-specific symbols are derived here
+
+export interface CurrencyPair {
+  base: string;
+  quote: string;
+}
+
+// Finnhub lists forex under several brokers; OANDA covers all majors and crosses
+const FINNHUB_FOREX_EXCHANGE = 'OANDA';
+
+export function parsePair(symbol: string): CurrencyPair | null {
+  const match = /^([A-Z]{3})\/([A-Z]{3})$/.exec(symbol);
+  return match ? { base: match[1], quote: match[2] } : null;
+}
+
+export function isValidPair(symbol: string): boolean {
+  return parsePair(symbol) !== null;
+}
+
+// Yen-quoted pairs are priced to two decimals, so their pip is 0.01 rather than 0.0001
+export function getPipSize(symbol: string): number {
+  return parsePair(symbol)?.quote === 'JPY' ? 0.01 : 0.0001;
+}
+
+// 'EUR/USD' -> 'OANDA:EUR_USD'
+export function toFinnhubSymbol(symbol: string): string {
+  return `${FINNHUB_FOREX_EXCHANGE}:${symbol.replace('/', '_')}`;
+}
+
+// 'OANDA:EUR_USD' (or any broker prefix) -> 'EUR/USD'
+export function fromFinnhubSymbol(finnhubSymbol: string): string {
+  const instrument = finnhubSymbol.includes(':') ? finnhubSymbol.split(':')[1] : finnhubSymbol;
+  return instrument.replace(/[_/]/, '/');
+}
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { MarketTick } from './market-data-provider.js';
+
+// One NDJSON line per tick; receivedAt is epoch ms when the server saw it
+export interface RecordedTick {
+  provider: string;
+  receivedAt: number;
+  tick: MarketTick;
+}
+
+export interface RecordingInfo {
+  file: string;
+  size: number;
+  modifiedAt: string;
+}
+
+export const RECORDINGS_DIR = process.env.TICK_RECORDINGS_DIR || path.resolve('recordings');
+
+/**
+ * Captures every tick the active provider emits into an append-only NDJSON
+ * file, one file per session, so a market session can be replayed later with
+ * the ReplayProvider.
+ */
+export class TickRecorder {
+  private stream: fs.WriteStream | null = null;
+  private sessionFile: string | null = null;
+  private recordedCount = 0;
+
+  constructor(private readonly directory: string = RECORDINGS_DIR) {}
+
+  start(sessionId: string = `ticks-${new Date().toISOString().replace(/[:.]/g, '-')}`): string {
+    if (this.stream && this.sessionFile) return this.sessionFile;
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.sessionFile = path.join(this.directory, `${sessionId}.ndjson`);
+    this.recordedCount = 0;
+    this.stream = fs.createWriteStream(this.sessionFile, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      console.error('Tick recorder write failed, recording stopped:', error);
+      this.stream = null;
+    });
+
+    console.log(`Recording ticks to ${this.sessionFile}`);
+    return this.sessionFile;
+  }
+
+  record(provider: string, tick: MarketTick): void {
+    if (!this.stream) return;
+
+    const entry: RecordedTick = { provider, receivedAt: Date.now(), tick };
+    this.stream.write(JSON.stringify(entry) + '\n');
+    this.recordedCount++;
+  }
+
+  async stop(): Promise<void> {
+    const stream = this.stream;
+    if (!stream) return;
+
+    this.stream = null;
+    await new Promise<void>(resolve => stream.end(resolve));
+    console.log(`Tick recording stopped after ${this.recordedCount} ticks`);
+  }
+
+  isRecording(): boolean {
+    return this.stream !== null;
+  }
+
+  getStatus() {
+    return {
+      recording: this.isRecording(),
+      file: this.sessionFile ? path.basename(this.sessionFile) : null,
+      ticks: this.recordedCount
+    };
+  }
+}
+
+export async function listRecordings(directory: string = RECORDINGS_DIR): Promise<RecordingInfo[]> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(directory);
+  } catch {
+    return [];
+  }
+
+  const recordings = await Promise.all(
+    names
+      .filter(name => name.endsWith('.ndjson'))
+      .map(async (name) => {
+        const stats = await fs.promises.stat(path.join(directory, name));
+        return { file: name, size: stats.size, modifiedAt: stats.mtime.toISOString() };
+      })
+  );
+
+  return recordings.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+}
+
+// Recordings are addressed by file name only so requests cannot reach outside the directory
+export function resolveRecording(file: string, directory: string = RECORDINGS_DIR): string {
+  return path.join(directory, path.basename(file));
+}
@@ -0,0 +1,200 @@
+import { InsertTradingSignal, Candle } from '@shared/schema.js';
+import { StreamingEMA, StreamingADX } from './indicators.js';
+import { Timeframe, isTimeframe } from './candle-aggregator.js';
+
+export type TrendDirection = 'up' | 'down' | 'neutral';
+
+export interface TrendFilterSettings {
+  method: 'ema' | 'adx'; // EMA crossover direction, or ADX strength with the DI direction
+  higherTimeframes: Partial<Record<Timeframe, Timeframe[]>>; // Timeframes that confirm entries on each timeframe
+  emaFast: number;
+  emaSlow: number;
+  adxPeriod: number;
+  minAdx: number; // Below this the ADX method reports no trend
+}
+
+export const DEFAULT_TREND_FILTER_SETTINGS: TrendFilterSettings = {
+  method: 'ema',
+  higherTimeframes: {
+    '1m': ['15m', '1h'],
+    '5m': ['1h'],
+    '15m': ['1h']
+  },
+  emaFast: 9,
+  emaSlow: 21,
+  adxPeriod: 14,
+  minAdx: 20
+};
+
+// Trend of one higher timeframe, as recorded in a signal's indicatorValues
+export interface TrendState {
+  timeframe: Timeframe;
+  direction: TrendDirection;
+  ready: boolean; // False until the slow EMA and ADX have warmed up
+  emaFast: number | null;
+  emaSlow: number | null;
+  adx: number | null;
+  plusDI: number | null;
+  minusDI: number | null;
+}
+
+export type TrendVerdict = 'confirmed' | 'vetoed' | 'unavailable';
+
+export interface TrendEvaluation {
+  verdict: TrendVerdict;
+  trends: TrendState[];
+}
+
+class TrendTracker {
+  private emaFast: StreamingEMA;
+  private emaSlow: StreamingEMA;
+  private adx: StreamingADX;
+  private bars = 0;
+  private state: TrendState;
+
+  constructor(timeframe: Timeframe, private readonly settings: TrendFilterSettings) {
+    this.emaFast = new StreamingEMA(settings.emaFast);
+    this.emaSlow = new StreamingEMA(settings.emaSlow);
+    this.adx = new StreamingADX(settings.adxPeriod);
+    this.state = {
+      timeframe,
+      direction: 'neutral',
+      ready: false,
+      emaFast: null,
+      emaSlow: null,
+      adx: null,
+      plusDI: null,
+      minusDI: null
+    };
+  }
+
+  update(candle: Candle): void {
+    this.bars++;
+    const emaFast = this.emaFast.update(candle.close);
+    const emaSlow = this.emaSlow.update(candle.close);
+    const adx = this.adx.update(candle);
+    // ADX needs 2 * period - 1 bars; the DI lines are defined from bar period
+    const ready = this.bars >= Math.max(this.settings.emaSlow, 2 * this.settings.adxPeriod - 1);
+
+    this.state = {
+      timeframe: this.state.timeframe,
+      direction: ready ? this.getDirection(emaFast, emaSlow, adx) : 'neutral',
+      ready,
+      emaFast: Number.isNaN(emaFast) ? null : emaFast,
+      emaSlow: Number.isNaN(emaSlow) ? null : emaSlow,
+      adx: Number.isNaN(adx.adx) ? null : adx.adx,
+      plusDI: Number.isNaN(adx.plusDI) ? null : adx.plusDI,
+      minusDI: Number.isNaN(adx.minusDI) ? null : adx.minusDI
+    };
+  }
+
+  getState(): TrendState {
+    return { ...this.state };
+  }
+
+  private getDirection(emaFast: number, emaSlow: number, adx: { adx: number; plusDI: number; minusDI: number }): TrendDirection {
+    if (this.settings.method === 'adx') {
+      if (!(adx.adx >= this.settings.minAdx) || adx.plusDI === adx.minusDI) return 'neutral';
+      return adx.plusDI > adx.minusDI ? 'up' : 'down';
+    }
+    if (emaFast === emaSlow) return 'neutral';
+    return emaFast > emaSlow ? 'up' : 'down';
+  }
+}
+
+/**
+ * Confirms or vetoes lower timeframe entries with the trend of higher
+ * timeframes built from the same tick stream. A BUY (SELL) passes when no
+ * warmed-up higher timeframe is trending down (up); a trendless higher
+ * timeframe does not block it. Until a higher timeframe has warmed up it is
+ * left out of the verdict.
+ */
+export class TrendFilter {
+  private trackers = new Map<string, TrendTracker>();
+  private settings: TrendFilterSettings;
+
+  constructor(settings: Partial<TrendFilterSettings> = {}) {
+    this.settings = { ...DEFAULT_TREND_FILTER_SETTINGS, ...settings };
+  }
+
+  // Feed every closed candle, of every timeframe, in order
+  update(candle: Candle): void {
+    if (!isTimeframe(candle.timeframe)) return;
+
+    const key = this.getKey(candle.symbol, candle.timeframe);
+    let tracker = this.trackers.get(key);
+    if (!tracker) {
+      tracker = new TrendTracker(candle.timeframe, this.settings);
+      this.trackers.set(key, tracker);
+    }
+    tracker.update(candle);
+  }
+
+  // Trends of the timeframes configured to confirm entries on this one
+  getTrends(symbol: string, timeframe: string): TrendState[] {
+    const higherTimeframes = isTimeframe(timeframe) ? this.settings.higherTimeframes[timeframe] ?? [] : [];
+    return higherTimeframes
+      .map(higher => this.trackers.get(this.getKey(symbol, higher))?.getState())
+      .filter((trend): trend is TrendState => trend !== undefined);
+  }
+
+  evaluate(symbol: string, timeframe: string, side: 'BUY' | 'SELL'): TrendEvaluation {
+    const trends = this.getTrends(symbol, timeframe);
+    const ready = trends.filter(trend => trend.ready);
+    if (ready.length === 0) return { verdict: 'unavailable', trends };
+
+    const opposing = side === 'BUY' ? 'down' : 'up';
+    const verdict = ready.some(trend => trend.direction === opposing) ? 'vetoed' : 'confirmed';
+    return { verdict, trends };
+  }
+
+  /**
+   * Record the higher timeframe trends on a signal and append the verdict to
+   * its reason. Vetoed entries are turned into HOLD signals without levels.
+   */
+  apply(signal: InsertTradingSignal, symbol: string): InsertTradingSignal {
+    const trends = this.getTrends(symbol, signal.timeframe);
+    if (trends.length === 0) return signal;
+
+    const indicatorValues = {
+      ...(signal.indicatorValues as Record<string, unknown> | null ?? {}),
+      higherTimeframes: trends
+    };
+    if (signal.signal !== 'BUY' && signal.signal !== 'SELL') return { ...signal, indicatorValues };
+
+    const evaluation = this.evaluate(symbol, signal.timeframe, signal.signal);
+    const summary = evaluation.trends
+      .map(trend => `${trend.timeframe} ${trend.ready ? trend.direction : 'warming up'}`)
+      .join(', ');
+
+    if (evaluation.verdict === 'vetoed') {
+      return {
+        ...signal,
+        signal: 'HOLD',
+        confidence: Math.min(signal.confidence, 0.45), // Engine HOLD confidence
+        reason: `${signal.reason} | Vetoed by higher timeframe trend (${summary})`,
+        stopLoss: null,
+        takeProfit: null,
+        stopLossPips: null,
+        takeProfitPips: null,
+        riskRewardRatio: null,
+        expectedMovePct: 0,
+        indicatorValues
+      };
+    }
+
+    const label = evaluation.verdict === 'confirmed' ? 'Confirmed by higher timeframe trend' : 'Higher timeframe trend unavailable';
+    return { ...signal, reason: `${signal.reason} | ${label} (${summary})`, indicatorValues };
+  }
+
+  evict(symbol: string): void {
+    const prefix = `${symbol}:`;
+    Array.from(this.trackers.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.trackers.delete(key));
+  }
+
+  private getKey(symbol: string, timeframe: string): string {
+    return `${symbol}:${timeframe}`;
+  }
+}
@@ -4,17 +4,38 @@ import {
   divergenceEvents, 
   marketData, 
   forexPairs,
+  strategyProfiles,
+  profileAssignments,
   type User, 
   type InsertUser, 
   type TradingSignal, 
   type ForexPair,
   type DivergenceEvent,
-  type MarketData
+  type MarketData,
+  type StrategyProfile,
+  type InsertStrategyProfile,
+  type ProfileAssignment,
+  type InsertProfileAssignment
 } from "@shared/schema";
 import { db } from "./db";
 import { eq, desc, and, gte, lte } from "drizzle-orm";
 import { randomUUID } from "crypto";
 
+// 1,000 rows of 8 columns stay well under the Postgres bind parameter limit
+const marketDataInsertChunkSize = 1000;
+
+export class DuplicateProfileNameError extends Error {
+  constructor(readonly profileName: string) {
+    super(`A strategy profile named ${profileName} already exists`);
+    this.name = 'DuplicateProfileNameError';
+  }
+}
+
+// Postgres unique_violation
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505';
+}
+
 // Enhanced interface with comprehensive CRUD methods for production
 export interface IStorage {
   // User management
@@ -30,8 +51,11 @@ export interface IStorage {
   
   // Market data
   saveMarketData(data: MarketData): Promise<void>;
+  saveMarketDataBatch(data: MarketData[]): Promise<void>;
   getLatestMarketData(symbol: string): Promise<MarketData | undefined>;
   getMarketDataHistory(symbol: string, hours: number): Promise<MarketData[]>;
+  // Newest `limit` ticks within the range, returned oldest first
+  getMarketDataRange(symbol: string, startTime: Date, endTime: Date, limit: number): Promise<MarketData[]>;
   
   // Divergence events
   saveDivergenceEvent(event: DivergenceEvent): Promise<void>;
@@ -39,9 +63,22 @@ export interface IStorage {
   updateDivergenceStatus(id: string, status: string): Promise<void>;
   
   // Forex pairs
+  getAllPairs(): Promise<ForexPair[]>;
   getActivePairs(): Promise<ForexPair[]>;
   updatePairStatus(symbol: string, isActive: boolean): Promise<void>;
   
+  // Strategy profiles
+  getStrategyProfiles(): Promise<StrategyProfile[]>;
+  getStrategyProfile(id: string): Promise<StrategyProfile | undefined>;
+  createStrategyProfile(profile: InsertStrategyProfile): Promise<StrategyProfile>;
+  updateStrategyProfile(id: string, changes: Partial<InsertStrategyProfile>): Promise<StrategyProfile | undefined>;
+  // Also removes the profile's assignments
+  deleteStrategyProfile(id: string): Promise<boolean>;
+  getProfileAssignments(): Promise<ProfileAssignment[]>;
+  // One profile per pair and timeframe; assigning again replaces it
+  assignProfile(assignment: InsertProfileAssignment): Promise<ProfileAssignment>;
+  unassignProfile(pair: string, timeframe: string): Promise<boolean>;
+  
   // Analytics and reporting
   getBacktestStats(): Promise<any>;
   getBacktestData(): Promise<any>;
@@ -109,6 +146,16 @@ export class DatabaseStorage implements IStorage {
     await db.insert(marketData).values(data);
   }
 
+  // Postgres caps a statement at 65,535 bind parameters, so large batches go in chunks; one transaction keeps a retry from duplicating rows
+  async saveMarketDataBatch(data: MarketData[]): Promise<void> {
+    if (data.length === 0) return;
+    await db.transaction(async tx => {
+      for (let i = 0; i < data.length; i += marketDataInsertChunkSize) {
+        await tx.insert(marketData).values(data.slice(i, i + marketDataInsertChunkSize));
+      }
+    });
+  }
+
   async getLatestMarketData(symbol: string): Promise<MarketData | undefined> {
     const [data] = await db
       .select()
@@ -133,6 +180,22 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(marketData.timestamp));
   }
 
+  async getMarketDataRange(symbol: string, startTime: Date, endTime: Date, limit: number): Promise<MarketData[]> {
+    const rows = await db
+      .select()
+      .from(marketData)
+      .where(
+        and(
+          eq(marketData.symbol, symbol),
+          gte(marketData.timestamp, startTime),
+          lte(marketData.timestamp, endTime)
+        )
+      )
+      .orderBy(desc(marketData.timestamp))
+      .limit(limit);
+    return rows.reverse();
+  }
+
   // Divergence events
   async saveDivergenceEvent(event: DivergenceEvent): Promise<void> {
     await db.insert(divergenceEvents).values(event);
@@ -154,6 +217,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Forex pairs
+  async getAllPairs(): Promise<ForexPair[]> {
+    return await db
+      .select()
+      .from(forexPairs);
+  }
+
   async getActivePairs(): Promise<ForexPair[]> {
     return await db
       .select()
@@ -168,6 +237,86 @@ export class DatabaseStorage implements IStorage {
       .where(eq(forexPairs.symbol, symbol));
   }
 
+  // Strategy profiles
+  async getStrategyProfiles(): Promise<StrategyProfile[]> {
+    return await db
+      .select()
+      .from(strategyProfiles)
+      .orderBy(strategyProfiles.name);
+  }
+
+  async getStrategyProfile(id: string): Promise<StrategyProfile | undefined> {
+    const [profile] = await db.select().from(strategyProfiles).where(eq(strategyProfiles.id, id));
+    return profile || undefined;
+  }
+
+  async createStrategyProfile(profile: InsertStrategyProfile): Promise<StrategyProfile> {
+    try {
+      const [created] = await db
+        .insert(strategyProfiles)
+        .values(profile)
+        .returning();
+      return created;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new DuplicateProfileNameError(profile.name);
+      throw error;
+    }
+  }
+
+  async updateStrategyProfile(id: string, changes: Partial<InsertStrategyProfile>): Promise<StrategyProfile | undefined> {
+    try {
+      const [updated] = await db
+        .update(strategyProfiles)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(strategyProfiles.id, id))
+        .returning();
+      return updated || undefined;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new DuplicateProfileNameError(changes.name ?? '');
+      throw error;
+    }
+  }
+
+  // Assignments cascade with the profile
+  async deleteStrategyProfile(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(strategyProfiles)
+      .where(eq(strategyProfiles.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getProfileAssignments(): Promise<ProfileAssignment[]> {
+    return await db
+      .select()
+      .from(profileAssignments);
+  }
+
+  async assignProfile(assignment: InsertProfileAssignment): Promise<ProfileAssignment> {
+    const [saved] = await db
+      .insert(profileAssignments)
+      .values(assignment)
+      .onConflictDoUpdate({
+        target: [profileAssignments.pair, profileAssignments.timeframe],
+        set: { profileId: assignment.profileId }
+      })
+      .returning();
+    return saved;
+  }
+
+  async unassignProfile(pair: string, timeframe: string): Promise<boolean> {
+    const deleted = await db
+      .delete(profileAssignments)
+      .where(
+        and(
+          eq(profileAssignments.pair, pair),
+          eq(profileAssignments.timeframe, timeframe)
+        )
+      )
+      .returning();
+    return deleted.length > 0;
+  }
+
   // Analytics and reporting
   async getBacktestStats(): Promise<any> {
     const signals = await this.getRecentSignals(1000);
@@ -263,7 +412,10 @@ export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private signals: TradingSignal[] = [];
   private marketDataStore: Map<string, MarketData[]> = new Map();
+  private readonly maxMarketDataPerSymbol = 20000; // Roughly eleven hours of demo ticks per pair
   private divergences: DivergenceEvent[] = [];
+  private profiles = new Map<string, StrategyProfile>();
+  private assignments: ProfileAssignment[] = [];
   private activePairs: ForexPair[] = [
     { id: '1', symbol: 'EUR/USD', name: 'Euro / US Dollar', isActive: true, timeframe: '1m' },
     { id: '2', symbol: 'GBP/USD', name: 'British Pound / US Dollar', isActive: true, timeframe: '1m' },
@@ -319,12 +471,18 @@ export class MemStorage implements IStorage {
     const symbol = data.symbol;
     const dataArray = this.marketDataStore.get(symbol) || [];
     dataArray.unshift(data);
-    if (dataArray.length > 1000) {
-      dataArray.splice(1000);
+    if (dataArray.length > this.maxMarketDataPerSymbol) {
+      dataArray.splice(this.maxMarketDataPerSymbol);
     }
     this.marketDataStore.set(symbol, dataArray);
   }
 
+  async saveMarketDataBatch(data: MarketData[]): Promise<void> {
+    for (const entry of data) {
+      await this.saveMarketData(entry);
+    }
+  }
+
   async getLatestMarketData(symbol: string): Promise<MarketData | undefined> {
     const dataArray = this.marketDataStore.get(symbol);
     return dataArray?.[0];
@@ -336,6 +494,14 @@ export class MemStorage implements IStorage {
     return dataArray.filter(d => d.timestamp >= startTime);
   }
 
+  async getMarketDataRange(symbol: string, startTime: Date, endTime: Date, limit: number): Promise<MarketData[]> {
+    const dataArray = this.marketDataStore.get(symbol) || [];
+    return dataArray
+      .filter(d => d.timestamp >= startTime && d.timestamp <= endTime)
+      .slice(0, limit)
+      .reverse();
+  }
+
   async saveDivergenceEvent(event: DivergenceEvent): Promise<void> {
     this.divergences.unshift(event);
     if (this.divergences.length > 500) {
@@ -354,6 +520,10 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async getAllPairs(): Promise<ForexPair[]> {
+    return [...this.activePairs];
+  }
+
   async getActivePairs(): Promise<ForexPair[]> {
     return this.activePairs.filter(p => p.isActive);
   }
@@ -365,6 +535,75 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async getStrategyProfiles(): Promise<StrategyProfile[]> {
+    return Array.from(this.profiles.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getStrategyProfile(id: string): Promise<StrategyProfile | undefined> {
+    return this.profiles.get(id);
+  }
+
+  async createStrategyProfile(profile: InsertStrategyProfile): Promise<StrategyProfile> {
+    if (Array.from(this.profiles.values()).some(existing => existing.name === profile.name)) {
+      throw new DuplicateProfileNameError(profile.name);
+    }
+
+    const created: StrategyProfile = {
+      id: randomUUID(),
+      name: profile.name,
+      description: profile.description ?? null,
+      indicatorSettings: profile.indicatorSettings ?? {},
+      stopSettings: profile.stopSettings ?? {},
+      ruleWeights: profile.ruleWeights ?? {},
+      ruleSet: profile.ruleSet ?? null,
+      minConfidence: profile.minConfidence ?? 0.6,
+      updatedAt: new Date()
+    };
+    this.profiles.set(created.id, created);
+    return created;
+  }
+
+  async updateStrategyProfile(id: string, changes: Partial<InsertStrategyProfile>): Promise<StrategyProfile | undefined> {
+    const profile = this.profiles.get(id);
+    if (!profile) return undefined;
+
+    if (changes.name !== undefined
+      && Array.from(this.profiles.values()).some(existing => existing.id !== id && existing.name === changes.name)) {
+      throw new DuplicateProfileNameError(changes.name);
+    }
+
+    const updated: StrategyProfile = {
+      ...profile,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      updatedAt: new Date()
+    };
+    this.profiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteStrategyProfile(id: string): Promise<boolean> {
+    this.assignments = this.assignments.filter(assignment => assignment.profileId !== id);
+    return this.profiles.delete(id);
+  }
+
+  async getProfileAssignments(): Promise<ProfileAssignment[]> {
+    return [...this.assignments];
+  }
+
+  async assignProfile(assignment: InsertProfileAssignment): Promise<ProfileAssignment> {
+    await this.unassignProfile(assignment.pair, assignment.timeframe);
+    const saved: ProfileAssignment = { id: randomUUID(), ...assignment };
+    this.assignments.push(saved);
+    return saved;
+  }
+
+  async unassignProfile(pair: string, timeframe: string): Promise<boolean> {
+    const remaining = this.assignments.filter(assignment => assignment.pair !== pair || assignment.timeframe !== timeframe);
+    const removed = remaining.length < this.assignments.length;
+    this.assignments = remaining;
+    return removed;
+  }
+
   async getBacktestStats(): Promise<any> {
     const totalSignals = this.signals.length;
     const buySignals = this.signals.filter(s => s.signal === 'BUY').length;
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, integer, timestamp, jsonb, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,12 +29,151 @@ export const tradingSignals = pgTable("trading_signals", {
   entryType: varchar("entry_type", { length: 10 }).notNull().default("market"),
   stopLoss: real("stop_loss"),
   takeProfit: real("take_profit"),
+  stopLossPips: real("stop_loss_pips"),
+  takeProfitPips: real("take_profit_pips"),
+  riskRewardRatio: real("risk_reward_ratio"), // Reward over risk, e.g. 2 for a 1:2 trade
   predictionHorizonMins: integer("prediction_horizon_mins").notNull().default(5),
   expectedMovePct: real("expected_move_pct"),
   indicatorValues: jsonb("indicator_values"),
   backtestStats: jsonb("backtest_stats"),
+  session: varchar("session", { length: 40 }), // Trading sessions open at signal time, e.g. london+new_york
+  profileId: varchar("profile_id"), // Strategy profile the engine ran with; null for the built-in defaults
 });
 
+// Parameter overrides for the signal engine; anything left out keeps the built-in default
+const period = z.number().int().min(1).max(500);
+
+export const profileIndicatorSettingsSchema = z.object({
+  rsiPeriod: period,
+  macd: z.object({ fast: period, slow: period, signal: period })
+    .refine(macd => macd.fast < macd.slow, { message: 'macd.fast must be shorter than macd.slow', path: ['fast'] }),
+  stochastic: z.object({ k: period, d: period }),
+  ema: z.object({ fast: period, slow: period })
+    .refine(ema => ema.fast < ema.slow, { message: 'ema.fast must be shorter than ema.slow', path: ['fast'] }),
+  adxPeriod: period,
+  bollinger: z.object({ period, stdDev: z.number().positive().max(10) }),
+  atrPeriod: period,
+  cciPeriod: period,
+  williamsRPeriod: period,
+  ichimoku: z.object({ conversion: period, base: period, spanB: period, displacement: period }),
+  psar: z.object({ step: z.number().positive().max(1), max: z.number().positive().max(1) })
+    .refine(psar => psar.step <= psar.max, { message: 'psar.step must not exceed psar.max', path: ['step'] })
+}).partial().strict();
+
+export const profileStopSettingsSchema = z.object({
+  stopAtrMultiple: z.number().positive().max(20),
+  targetAtrMultiple: z.number().positive().max(50),
+  snapToSwings: z.boolean(),
+  swingStrength: z.number().int().min(1).max(20),
+  maxSnapAtr: z.number().min(0).max(10),
+  swingBufferAtr: z.number().min(0).max(10)
+}).partial().strict();
+
+// Confirmation rule name -> weight; a weight of 0 disables the rule. Names are checked against the profile's rule set when it is saved
+export const profileRuleWeightsSchema = z.record(z.string(), z.number().min(0).max(1));
+
+export const CANDLESTICK_PATTERNS = [
+  'bullishEngulfing', 'bearishEngulfing',
+  'hammer', 'shootingStar',
+  'doji', 'insideBar',
+  'morningStar', 'eveningStar',
+  'threeWhiteSoldiers', 'threeBlackCrows'
+] as const;
+
+export type CandlestickPattern = typeof CANDLESTICK_PATTERNS[number];
+
+// Confirmation rule language: conditions over a bar's indicator values, compiled by the signal engine
+export const INDICATOR_PATHS = [
+  'price', 'rsi',
+  'macd.macd', 'macd.signal', 'macd.histogram',
+  'stochastic.k', 'stochastic.d',
+  'ema.fast', 'ema.slow',
+  'adx.adx', 'adx.plusDI', 'adx.minusDI',
+  'bollinger.upper', 'bollinger.middle', 'bollinger.lower', 'bollinger.bandwidth', 'bollinger.percentB',
+  'atr', 'cci', 'williamsR',
+  'ichimoku.tenkan', 'ichimoku.kijun', 'ichimoku.senkouA', 'ichimoku.senkouB', 'ichimoku.cloud',
+  'psar.sar', 'psar.trend',
+  'patterns.bullishEngulfing', 'patterns.bearishEngulfing',
+  'patterns.hammer', 'patterns.shootingStar',
+  'patterns.doji', 'patterns.insideBar',
+  'patterns.morningStar', 'patterns.eveningStar',
+  'patterns.threeWhiteSoldiers', 'patterns.threeBlackCrows'
+] as const;
+
+export type IndicatorPath = typeof INDICATOR_PATHS[number];
+
+// A bare path reads the current bar; barsAgo reads an earlier one
+export const ruleOperandSchema = z.union([
+  z.number(),
+  z.enum(INDICATOR_PATHS),
+  z.object({ path: z.enum(INDICATOR_PATHS), barsAgo: z.number().int().min(0).max(49).default(0) }).strict(),
+  z.object({ value: z.union([z.number(), z.string(), z.boolean()]) }).strict(),
+]);
+
+export type RuleOperand = z.infer<typeof ruleOperandSchema>;
+
+export type RuleCondition =
+  | { type: 'compare'; left: RuleOperand; op: '>' | '>=' | '<' | '<=' | '==' | '!='; right: RuleOperand }
+  | { type: 'between'; value: RuleOperand; min: RuleOperand; max: RuleOperand }
+  | { type: 'crossAbove' | 'crossBelow'; left: RuleOperand; right: RuleOperand }
+  | { type: 'rising' | 'falling'; value: RuleOperand; bars: number }
+  | { type: 'all' | 'any'; conditions: RuleCondition[] }
+  | { type: 'not'; condition: RuleCondition }
+  | { type: 'pattern'; pattern: CandlestickPattern; barsAgo?: number }; // Candlestick pattern completed on that bar
+
+export const ruleConditionSchema: z.ZodType<RuleCondition, z.ZodTypeDef, unknown> = z.lazy(() => z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('compare'),
+    left: ruleOperandSchema,
+    op: z.enum(['>', '>=', '<', '<=', '==', '!=']),
+    right: ruleOperandSchema
+  }).strict(),
+  z.object({ type: z.literal('between'), value: ruleOperandSchema, min: ruleOperandSchema, max: ruleOperandSchema }).strict(),
+  z.object({ type: z.enum(['crossAbove', 'crossBelow']), left: ruleOperandSchema, right: ruleOperandSchema }).strict(),
+  z.object({ type: z.enum(['rising', 'falling']), value: ruleOperandSchema, bars: z.number().int().min(1).max(49) }).strict(),
+  z.object({ type: z.enum(['all', 'any']), conditions: z.array(ruleConditionSchema).min(1) }).strict(),
+  z.object({ type: z.literal('not'), condition: ruleConditionSchema }).strict(),
+  z.object({ type: z.literal('pattern'), pattern: z.enum(CANDLESTICK_PATTERNS), barsAgo: z.number().int().min(0).max(49).optional() }).strict(),
+]));
+
+export const ruleDefinitionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  weight: z.number().min(0).max(1),
+  when: ruleConditionSchema
+}).strict();
+
+export const ruleSetSchema = z.object({
+  bullish: z.array(ruleDefinitionSchema),
+  bearish: z.array(ruleDefinitionSchema)
+}).strict();
+
+export type RuleDefinition = z.infer<typeof ruleDefinitionSchema>;
+export type RuleSet = z.infer<typeof ruleSetSchema>;
+
+export type ProfileIndicatorSettings = z.infer<typeof profileIndicatorSettingsSchema>;
+export type ProfileStopSettings = z.infer<typeof profileStopSettingsSchema>;
+export type ProfileRuleWeights = z.infer<typeof profileRuleWeightsSchema>;
+
+export const strategyProfiles = pgTable("strategy_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  indicatorSettings: jsonb("indicator_settings").$type<ProfileIndicatorSettings>().notNull().default({}),
+  stopSettings: jsonb("stop_settings").$type<ProfileStopSettings>().notNull().default({}),
+  ruleWeights: jsonb("rule_weights").$type<ProfileRuleWeights>().notNull().default({}),
+  ruleSet: jsonb("rule_set"), // RuleSet replacing the default confirmation rules when set
+  minConfidence: real("min_confidence").notNull().default(0.6),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Which profile the engine for a pair and timeframe runs with
+export const profileAssignments = pgTable("profile_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pair: varchar("pair", { length: 10 }).notNull(),
+  timeframe: varchar("timeframe", { length: 10 }).notNull(),
+  profileId: varchar("profile_id").notNull().references(() => strategyProfiles.id, { onDelete: "cascade" }),
+}, (table) => [unique().on(table.pair, table.timeframe)]);
+
 export const divergenceEvents = pgTable("divergence_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
@@ -83,6 +222,22 @@ export const insertMarketDataSchema = createInsertSchema(marketData).omit({
   timestamp: true,
 });
 
+export const insertStrategyProfileSchema = createInsertSchema(strategyProfiles, {
+  name: (schema) => schema.trim().min(1).max(100),
+  indicatorSettings: profileIndicatorSettingsSchema.optional(),
+  stopSettings: profileStopSettingsSchema.optional(),
+  ruleWeights: profileRuleWeightsSchema.optional(),
+  ruleSet: ruleSetSchema.nullable().optional(),
+  minConfidence: (schema) => schema.min(0).max(1),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertProfileAssignmentSchema = createInsertSchema(profileAssignments).omit({
+  id: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -99,6 +254,12 @@ export type InsertDivergenceEvent = z.infer<typeof insertDivergenceEventSchema>;
 export type MarketData = typeof marketData.$inferSelect;
 export type InsertMarketData = z.infer<typeof insertMarketDataSchema>;
 
+export type StrategyProfile = typeof strategyProfiles.$inferSelect;
+export type InsertStrategyProfile = z.infer<typeof insertStrategyProfileSchema>;
+
+export type ProfileAssignment = typeof profileAssignments.$inferSelect;
+export type InsertProfileAssignment = z.infer<typeof insertProfileAssignmentSchema>;
+
 // WebSocket message types
 export interface WSMessage {
   type: string;
@@ -123,23 +284,130 @@ export interface MarketUpdate extends WSMessage {
     change: number;
     changePercent: number;
     timestamp: string;
+    bid?: number;
+    ask?: number;
+    volume?: number;
+    synthetic?: boolean; // Cross rate triangulated from other pairs, not quoted directly
   };
 }
 
+export interface Candle {
+  symbol: string;
+  timeframe: string; // 1m, 5m, 15m, 1h
+  openTime: number; // Bar start, epoch ms
+  closeTime: number; // Bar end (exclusive), epoch ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  tickCount: number; // 0 for flat bars synthesized across a gap
+}
+
+export interface CandleClosed extends WSMessage {
+  type: 'candle_closed';
+  data: Candle;
+}
+
+export type DataQualityIssue =
+  | 'invalid_price'
+  | 'invalid_timestamp'
+  | 'crossed_quote'
+  | 'duplicate_timestamp'
+  | 'out_of_order'
+  | 'spike'
+  | 'stale_quote';
+
+export interface QuarantinedTick {
+  symbol: string;
+  price: number;
+  bid?: number;
+  ask?: number;
+  timestamp: string;
+  issue: DataQualityIssue;
+  detail: string;
+  quarantinedAt: string;
+}
+
+export interface PairDataQuality {
+  symbol: string;
+  // degraded: ticks were quarantined recently; stale: the quote stopped moving while the market is open
+  status: 'ok' | 'degraded' | 'stale' | 'no_data';
+  lastTickAt: string | null;
+  lastChangeAt: string | null; // Last accepted tick that moved the price
+  acceptedTicks: number;
+  quarantinedTicks: number;
+  issues: Partial<Record<DataQualityIssue, number>>;
+  lastIssue?: QuarantinedTick;
+}
+
+export interface DataQualityUpdate extends WSMessage {
+  type: 'data_quality';
+  data: {
+    pairs: PairDataQuality[];
+    updatedAt: string;
+  };
+}
+
+export interface ProviderHealth {
+  id: string;
+  name: string;
+  running: boolean;
+  connected: boolean;
+  stalenessMs: number | null; // Time since the last tick, null before the first one
+  errorRate: number; // 0-1 share of errors among recent events
+  reconnectAttempts: number;
+  score: number; // 0-1, below 0.5 counts as unhealthy
+  healthy: boolean;
+}
+
+export interface MarketSessionState {
+  open: boolean;
+  sessions: string[]; // sydney, tokyo, london, new_york
+  reason?: 'weekend' | 'holiday';
+  holiday?: string;
+  nextOpen?: string;
+}
+
+export interface ReplayState {
+  file: string | null;
+  playing: boolean;
+  finished: boolean;
+  speed: number | 'max'; // Multiple of recorded time, or as fast as possible
+  position: number; // Index of the next tick to emit
+  totalTicks: number;
+  startTime: string | null; // Timestamps of the first and last recorded ticks
+  endTime: string | null;
+  currentTime: string | null; // Virtual replay clock
+}
+
 export interface SystemStatus extends WSMessage {
   type: 'system_status';
   data: {
     connected: boolean;
-    mode?: string; // 'demo' or 'live'
+    mode?: string; // 'demo', 'live', 'replay' or 'market_closed'
     provider?: string; // 'ExchangeRate-API' or 'Demo'
     rateLimit: { 
       current: number; 
       max: number; 
       resetTime?: string;
+      window?: string; // 'minute', 'day' or 'month'
     };
     uptime?: number;
     latency?: number;
     lastUpdate?: string;
+    activePairs?: number;
+    errorCount?: number;
+    reconnectAttempts?: number;
+    failover?: {
+      activeProvider: string;
+      reason?: string; // Why the last switch happened
+      switchedAt?: string;
+      previousProvider?: string;
+      providers: ProviderHealth[];
+    };
+    replay?: ReplayState;
+    market?: MarketSessionState;
     // Legacy fields for backward compatibility
     finnhubConnected?: boolean;
     dataProcessing?: boolean;